@@ -7,6 +7,9 @@ import AuthPage from "@/pages/auth-page";
 import Home from "@/pages/home";
 import CreateCharacter from "@/pages/create-character";
 import CharacterPage from "@/pages/character";
+import DiaryPage from "@/pages/diary";
+import ChroniclePage from "@/pages/chronicle";
+import AdminPromptsPage from "@/pages/admin-prompts";
 import { useUser } from "@/hooks/use-user";
 import { Loader2 } from "lucide-react";
 
@@ -30,6 +33,9 @@ function Router() {
       <Route path="/" component={Home} />
       <Route path="/create-character" component={CreateCharacter} />
       <Route path="/character/:id" component={CharacterPage} />
+      <Route path="/character/:id/diary" component={DiaryPage} />
+      <Route path="/character/:id/chronicle" component={ChroniclePage} />
+      <Route path="/admin/prompts" component={AdminPromptsPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { Character } from "@db/schema";
+import { Loader2 } from "lucide-react";
+
+interface AdvanceTimeDialogProps {
+  character: Character;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Lets time pass when a prompt says so, or sets the year outright
+export function AdvanceTimeDialog({ character, open, onOpenChange }: AdvanceTimeDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const hasYear = character.currentYear !== null;
+  const [mode, setMode] = useState<"advance" | "set">("advance");
+  // Without a year there is nothing to advance from, so it has to be set
+  const timeMode = hasYear ? mode : "set";
+  const [value, setValue] = useState("");
+  const [eraName, setEraName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const reset = () => {
+    setMode("advance");
+    setValue("");
+    setEraName("");
+  };
+
+  const handleSave = async () => {
+    const amount = parseInt(value);
+    if (isNaN(amount)) return;
+
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/character/${character.id}/time`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-cache"
+        },
+        body: JSON.stringify({
+          ...(timeMode === "advance" ? { years: amount } : { year: amount }),
+          ...(eraName.trim() && { eraName }),
+        }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to advance time");
+      }
+
+      const updatedCharacter: Character = await res.json();
+      queryClient.setQueryData(["/api/character", String(character.id)], updatedCharacter);
+      await queryClient.invalidateQueries({ queryKey: ["/api/eras"] });
+
+      toast({
+        title: "Time Passes",
+        description: `It is now the year ${updatedCharacter.currentYear}.`,
+      });
+      reset();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) reset();
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Time Passes</DialogTitle>
+          <DialogDescription>
+            {hasYear
+              ? `It is the year ${character.currentYear}. Your responses and experiences are marked with the year they happen in.`
+              : "Set the year your vampire's story has reached. Your responses and experiences will be marked with it."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {hasYear && (
+            <RadioGroup value={mode} onValueChange={(v) => setMode(v as "advance" | "set")} className="flex gap-4">
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem id="time-advance" value="advance" />
+                <Label htmlFor="time-advance">Years pass</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem id="time-set" value="set" />
+                <Label htmlFor="time-set">Set the year</Label>
+              </div>
+            </RadioGroup>
+          )}
+          <Input
+            type="number"
+            min={timeMode === "advance" ? 1 : undefined}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder={timeMode === "advance" ? "How many years pass?" : "What year is it?"}
+          />
+          <div className="space-y-1">
+            <Label htmlFor="time-era">Begin a new era (optional)</Label>
+            <Input
+              id="time-era"
+              value={eraName}
+              onChange={(e) => setEraName(e.target.value)}
+              placeholder="The Long Sleep, The Age of Steam..."
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving || isNaN(parseInt(value))}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
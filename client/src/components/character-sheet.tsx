@@ -1,19 +1,38 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Character, Trait } from "@db/schema";
+import { Character, Mortality, Trait } from "@db/schema";
 import { cn } from "@/lib/utils";
-import { Check, X, HelpCircle } from "lucide-react";
+import { Check, X, HelpCircle, ChevronDown, ChevronRight, MessageSquarePlus, RotateCcw, Undo2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 
 interface CharacterSheetProps {
   character: Character;
   onCheck: (name: string) => void;
+  onUncheck: (name: string) => void;
   onStrike: (type: keyof Character, name: string) => void;
+  onRestore: (type: keyof Character, name: string) => void;
+  // Resolves to true once the server has saved the descriptor
+  onDescribe: (name: string, text: string) => Promise<boolean>;
+  onLoseStationary: () => void;
+  onSetMortality: (name: string, mortality: Mortality) => void;
 }
 
 interface TraitListProps {
@@ -22,7 +41,14 @@ interface TraitListProps {
   type: keyof Character;
   canCheck?: boolean;
   onCheck?: (name: string) => void;
+  onUncheck?: (name: string) => void;
   onStrike: (type: keyof Character, name: string) => void;
+  onRestore: (type: keyof Character, name: string) => void;
+  onDescribe?: (name: string, text: string) => Promise<boolean>;
+  onLoseStationary?: () => void;
+  onSetMortality?: (name: string, mortality: Mortality) => void;
+  // The Resource of a lost diary, which stays lost with the diary
+  lostDiaryResource?: string;
 }
 
 function TraitList({ 
@@ -31,9 +57,29 @@ function TraitList({
   type,
   canCheck = false,
   onCheck,
-  onStrike
+  onUncheck,
+  onStrike,
+  onRestore,
+  onDescribe,
+  onLoseStationary,
+  onSetMortality,
+  lostDiaryResource
 }: TraitListProps) {
   const items = Array.isArray(traits) ? traits : [];
+  const stationary = items.filter(t => t.stationary && !t.strikedOut);
+  // Character whose descriptor history is open, and the one being described
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [describing, setDescribing] = useState<string | null>(null);
+  const [descriptorText, setDescriptorText] = useState("");
+
+  const handleDescribe = async (name: string) => {
+    if (!onDescribe || !descriptorText.trim()) return;
+    if (await onDescribe(name, descriptorText)) {
+      setDescriptorText("");
+      setDescribing(null);
+      setExpanded(name);
+    }
+  };
 
   // Skills help content
   const skillsHelpContent = `
@@ -90,6 +136,28 @@ function TraitList({
       <div className="flex items-center justify-between mb-2">
         <h3 className="text-lg font-semibold">{title}</h3>
         
+        {onLoseStationary && stationary.length > 0 && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-6 ml-auto text-destructive">
+                Lose Stationary
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Lose all stationary Resources?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Your vampire leaves behind {stationary.map(t => t.name).join(", ")}. They will be struck out.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={onLoseStationary}>Lose Them</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+        
         {type === 'skills' && (
           <Popover>
             <PopoverTrigger asChild>
@@ -171,46 +239,146 @@ function TraitList({
       </div>
       <ScrollArea className="h-32 rounded-md border p-2">
         {items.map((trait, i) => (
-          <div
-            key={i}
-            className={cn(
-              "py-1 flex items-center justify-between group",
-              trait.strikedOut && "text-muted-foreground line-through italic opacity-60",
-              trait.checked && "font-semibold text-primary"
-            )}
-          >
-            <span className="flex items-center gap-2">
-              {trait.checked && (
-                <Check className="h-4 w-4 text-primary flex-shrink-0" />
-              )}
-              {trait.name}
-            </span>
-            <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-              {canCheck && onCheck && !trait.checked && !trait.strikedOut && (
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-6 w-6 hover:bg-primary/10 hover:text-primary"
-                  onClick={() => onCheck(trait.name)}
-                  title="Mark as experienced"
-                >
-                  <Check className="h-4 w-4" />
-                  <span className="sr-only">Mark as experienced</span>
-                </Button>
-              )}
-              {!trait.strikedOut && (
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-6 w-6 hover:bg-destructive/10 hover:text-destructive"
-                  onClick={() => onStrike(type, trait.name)}
-                  title="Lose this trait"
-                >
-                  <X className="h-4 w-4" />
-                  <span className="sr-only">Lose {type}</span>
-                </Button>
+          <div key={i}>
+            <div
+              className={cn(
+                "py-1 flex items-center justify-between group",
+                trait.strikedOut && "text-muted-foreground line-through italic opacity-60",
+                trait.checked && "font-semibold text-primary"
               )}
+            >
+              <span className="flex items-center gap-2">
+                {trait.checked && (
+                  <Check className="h-4 w-4 text-primary flex-shrink-0" />
+                )}
+                {trait.descriptors && trait.descriptors.length > 0 && (
+                  <button
+                    type="button"
+                    className="text-muted-foreground"
+                    onClick={() => setExpanded(expanded === trait.name ? null : trait.name)}
+                    title="Show descriptors"
+                  >
+                    {expanded === trait.name ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  </button>
+                )}
+                {trait.name}
+                {trait.stationary && (
+                  <span className="text-xs text-muted-foreground font-normal not-italic">Stationary</span>
+                )}
+                {onSetMortality && !trait.strikedOut ? (
+                  // Characters added before mortality was tracked start out with neither
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground font-normal hover:text-primary"
+                    onClick={() => onSetMortality(trait.name, trait.mortality === "mortal" ? "immortal" : "mortal")}
+                    title={trait.mortality ? "Switch between mortal and immortal" : "Mark as mortal"}
+                  >
+                    {trait.mortality === "mortal" ? "Mortal" : trait.mortality === "immortal" ? "Immortal" : "Mortal or immortal?"}
+                  </button>
+                ) : trait.mortality && (
+                  <span className="text-xs text-muted-foreground font-normal not-italic">
+                    {trait.mortality === "mortal" ? "Mortal" : "Immortal"}
+                  </span>
+                )}
+              </span>
+              <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                {onDescribe && !trait.strikedOut && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => {
+                      setDescriptorText("");
+                      setDescribing(describing === trait.name ? null : trait.name);
+                    }}
+                    title="Add a descriptor"
+                  >
+                    <MessageSquarePlus className="h-4 w-4" />
+                    <span className="sr-only">Add a descriptor</span>
+                  </Button>
+                )}
+                {canCheck && onCheck && !trait.checked && !trait.strikedOut && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 hover:bg-primary/10 hover:text-primary"
+                    onClick={() => onCheck(trait.name)}
+                    title="Mark as experienced"
+                  >
+                    <Check className="h-4 w-4" />
+                    <span className="sr-only">Mark as experienced</span>
+                  </Button>
+                )}
+                {canCheck && onUncheck && trait.checked && !trait.strikedOut && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => onUncheck(trait.name)}
+                    title="Uncheck"
+                  >
+                    <Undo2 className="h-4 w-4" />
+                    <span className="sr-only">Uncheck</span>
+                  </Button>
+                )}
+                {trait.strikedOut && trait.name !== lostDiaryResource && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 hover:bg-primary/10 hover:text-primary"
+                    onClick={() => onRestore(type, trait.name)}
+                    title="Restore this trait"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    <span className="sr-only">Restore {type}</span>
+                  </Button>
+                )}
+                {!trait.strikedOut && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 hover:bg-destructive/10 hover:text-destructive"
+                    onClick={() => onStrike(type, trait.name)}
+                    title="Lose this trait"
+                  >
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Lose {type}</span>
+                  </Button>
+                )}
+              </div>
             </div>
+            {expanded === trait.name && trait.descriptors && (
+              <ol className="ml-6 mb-1 space-y-1 text-sm text-muted-foreground">
+                {trait.descriptors.map((descriptor, j) => (
+                  <li key={j}>
+                    {descriptor.promptNumber !== undefined && (
+                      <span className="text-xs mr-1">{descriptor.promptNumber}{descriptor.promptLetter}</span>
+                    )}
+                    {descriptor.text}
+                  </li>
+                ))}
+              </ol>
+            )}
+            {describing === trait.name && (
+              <div className="ml-6 mb-1 flex gap-2">
+                <Input
+                  autoFocus
+                  className="h-8"
+                  value={descriptorText}
+                  onChange={(e) => setDescriptorText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      handleDescribe(trait.name);
+                    }
+                    if (e.key === "Escape") {
+                      setDescribing(null);
+                    }
+                  }}
+                  placeholder="I freed them from a Turkish prison..."
+                />
+                <Button size="sm" className="h-8" onClick={() => handleDescribe(trait.name)}>Add</Button>
+              </div>
+            )}
           </div>
         ))}
       </ScrollArea>
@@ -218,17 +386,26 @@ function TraitList({
   );
 }
 
-export function CharacterSheet({ character, onCheck, onStrike }: CharacterSheetProps) {
+export function CharacterSheet({
+  character,
+  onCheck,
+  onUncheck,
+  onStrike,
+  onRestore,
+  onDescribe,
+  onLoseStationary,
+  onSetMortality
+}: CharacterSheetProps) {
   return (
     <Card className="h-full">
       <CardHeader>
         <CardTitle>{character.name}</CardTitle>
       </CardHeader>
       <CardContent className="space-y-6">
-        <TraitList title="Skills" traits={character.skills} type="skills" canCheck onCheck={onCheck} onStrike={onStrike} />
-        <TraitList title="Resources" traits={character.resources} type="resources" onStrike={onStrike} />
-        <TraitList title="Characters" traits={character.relationships} type="relationships" onStrike={onStrike} />
-        <TraitList title="Marks" traits={character.marks} type="marks" onStrike={onStrike} />
+        <TraitList title="Skills" traits={character.skills} type="skills" canCheck onCheck={onCheck} onUncheck={onUncheck} onStrike={onStrike} onRestore={onRestore} />
+        <TraitList title="Resources" traits={character.resources} type="resources" onStrike={onStrike} onRestore={onRestore} onLoseStationary={onLoseStationary} lostDiaryResource={character.diary?.lost ? character.diary.resourceName : undefined} />
+        <TraitList title="Characters" traits={character.relationships} type="relationships" onStrike={onStrike} onRestore={onRestore} onDescribe={onDescribe} onSetMortality={onSetMortality} />
+        <TraitList title="Marks" traits={character.marks} type="marks" onStrike={onStrike} onRestore={onRestore} />
       </CardContent>
     </Card>
   );
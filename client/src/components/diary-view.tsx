@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { Diary } from "@db/schema";
+import { hasActiveDiary, MAX_DIARY_MEMORIES } from "@db/rules";
+import { cn } from "@/lib/utils";
+import { BookMarked, Flame } from "lucide-react";
+
+interface DiaryViewProps {
+  diary: Diary | null;
+  onLose: () => Promise<void>;
+}
+
+export function DiaryView({ diary, onLose }: DiaryViewProps) {
+  const [confirmLose, setConfirmLose] = useState(false);
+
+  if (!diary) {
+    return (
+      <div className="text-center text-muted-foreground py-8 space-y-2">
+        <BookMarked className="h-8 w-8 mx-auto" />
+        <p>You have not started a diary.</p>
+        <p className="text-sm">Move a memory to a diary to begin one; it can hold {MAX_DIARY_MEMORIES} memories.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className={cn("text-lg font-semibold", diary.lost && "line-through")}>{diary.name}</h3>
+          <div className="text-sm text-muted-foreground">
+            {diary.memories.length}/{MAX_DIARY_MEMORIES} memories
+          </div>
+        </div>
+        {hasActiveDiary(diary) ? (
+          <Button variant="outline" size="sm" className="text-destructive" onClick={() => setConfirmLose(true)}>
+            <Flame className="h-4 w-4 mr-1" />
+            Lose Diary
+          </Button>
+        ) : (
+          <Badge variant="destructive">Lost</Badge>
+        )}
+      </div>
+
+      {diary.lost && (
+        <p className="text-sm text-muted-foreground">
+          This diary is gone, and every memory written in it is lost with it. Move a memory to a diary to start a new one.
+        </p>
+      )}
+
+      {diary.memories.length === 0 && (
+        <p className="text-sm text-muted-foreground">The diary has no entries yet.</p>
+      )}
+
+      {diary.memories.map(memory => (
+        <Card key={memory.id} className={cn(memory.strikedOut && "opacity-50")}>
+          <CardContent className="p-4">
+            <h4 className="font-semibold mb-2">{memory.title}</h4>
+            <div className="space-y-2">
+              {(memory.experiences || []).map((exp, i) => (
+                <div key={i} className="text-sm pl-3 border-l-2 border-primary/30">
+                  {exp.text}
+                  {exp.promptNumber !== undefined && (
+                    <span className="text-xs text-muted-foreground ml-2">
+                      Prompt {exp.promptNumber}{exp.promptLetter}
+                    </span>
+                  )}
+                  {exp.year !== undefined && (
+                    <span className="text-xs text-muted-foreground ml-2">Year {exp.year}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+
+      <AlertDialog open={confirmLose} onOpenChange={setConfirmLose}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Lose {diary.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The diary Resource will be struck out and the {diary.memories.length} memories written in it
+              are lost forever.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onLose}>Lose Diary</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
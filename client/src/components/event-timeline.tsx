@@ -0,0 +1,94 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { Character, CharacterEvent, CharacterEventType } from "@db/schema";
+import { cn } from "@/lib/utils";
+import { BookOpen, Brain, Dices, History, Hourglass, Loader2, Sparkles, User } from "lucide-react";
+
+interface EventTimelineProps {
+  character: Character;
+}
+
+// Icon for each family of events; anything else is a change to the character itself
+export function eventIcon(type: CharacterEventType) {
+  if (type.startsWith("trait_")) return Sparkles;
+  if (type.startsWith("memor") || type.startsWith("experience")) return Brain;
+  if (type.startsWith("diary_")) return BookOpen;
+  if (type.startsWith("prompt_") || type === "response_edited") return Dices;
+  if (type.startsWith("era_") || type === "time_passed") return Hourglass;
+  return User;
+}
+
+// Losses are called out since they cannot be taken back in play
+export const LOSS_EVENTS: CharacterEventType[] = ["trait_struck", "memory_forgotten", "memory_deleted", "diary_lost"];
+
+export function EventTimeline({ character }: EventTimelineProps) {
+  const queryClient = useQueryClient();
+
+  const { data: events, isLoading } = useQuery<CharacterEvent[]>({
+    queryKey: ["/api/character-events", character.id],
+    queryFn: async () => {
+      const res = await fetch(`/api/character/${character.id}/events`, {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+          'Pragma': 'no-cache'
+        }
+      });
+
+      if (!res.ok) {
+        throw new Error(await res.text());
+      }
+
+      return res.json();
+    },
+    enabled: !!character.id,
+    refetchOnWindowFocus: false,
+  });
+
+  // Every change to the character bumps updatedAt, so a new value means new events
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: ["/api/character-events", character.id] });
+  }, [character.id, character.updatedAt, queryClient]);
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Timeline
+        </h2>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-border" />
+          </div>
+        ) : !events || events.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">Nothing has happened to {character.name} yet.</p>
+        ) : (
+          <ScrollArea className="h-80 pr-4">
+            <ol className="space-y-3">
+              {events.map(event => {
+                const Icon = eventIcon(event.type);
+                return (
+                  <li key={event.id} className="flex gap-3">
+                    <Icon className={cn(
+                      "h-4 w-4 mt-1 shrink-0",
+                      LOSS_EVENTS.includes(event.type) ? "text-destructive" : "text-muted-foreground"
+                    )} />
+                    <div>
+                      <p className="text-sm">{event.summary}</p>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(event.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
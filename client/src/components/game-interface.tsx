@@ -1,62 +1,51 @@
 import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { CharacterSheet } from "./character-sheet";
 import { MemoryList } from "./memory-list";
-import { Character, Trait, Memory } from "@db/schema";
+import { DiaryView } from "./diary-view";
+import { Character, Memory, Mortality } from "@db/schema";
 import { useToast } from "@/hooks/use-toast";
+import { characterRequest } from "@/lib/character-request";
 import { Check, X } from "lucide-react";
-import { nanoid } from 'nanoid';
 
 interface GameInterfaceProps {
   character: Character;
-  onSave: (character: Partial<Character>) => Promise<void>;
 }
 
-export function GameInterface({ character, onSave }: GameInterfaceProps) {
+export function GameInterface({ character }: GameInterfaceProps) {
   const [inputs, setInputs] = useState({
     skill: "",
     resource: "",
     character: "",
     mark: "",
   });
+  // New Characters are mortal unless the prompt says otherwise
+  const [mortality, setMortality] = useState<Mortality>("mortal");
+  const [stationary, setStationary] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
-  const updateTrait = (
-    traits: Trait[],
-    name: string,
-    action: "check" | "strike" | "add"
-  ): Trait[] => {
-    // Safely handle undefined or null traits
-    const safeTraits = Array.isArray(traits) ? traits : [];
-    
-    // Add a new trait
-    if (action === "add") {
-      return [...safeTraits, { name }];
-    }
-    
-    // Update existing trait
-    return safeTraits.map((trait) => {
-      if (trait.name === name) {
-        if (action === "check") {
-          // Toggle checked state
-          return { ...trait, checked: true };
-        } else if (action === "strike") {
-          // Toggle strikedOut state
-          return { ...trait, strikedOut: true };
-        }
-      }
-      return trait;
-    });
-  };
-
-  const handleMemoryUpdate = async (memories: Memory[]) => {
+  // The diary and memory edits have their own routes so the server can enforce their rules
+  const handleMoveToDiary = async (memory: Memory, diaryName?: string) => {
     try {
-      await onSave({ memories });
+      const updatedCharacter = await characterRequest(queryClient, character.id, "POST", "diary/memories", { memoryId: memory.id, diaryName });
+
       toast({
-        title: "Success",
-        description: "Memories updated",
+        title: "Memory Preserved",
+        description: `The memory "${memory.title}" has been written into ${updatedCharacter.diary?.name || "the diary"}.`,
       });
     } catch (error: any) {
       toast({
@@ -67,57 +56,82 @@ export function GameInterface({ character, onSave }: GameInterfaceProps) {
     }
   };
 
-  const handleMoveToDiary = async (memory: Memory, diaryName: string) => {
+  const handleLoseDiary = async () => {
     try {
-      const updatedMemories = character.memories.map(m =>
-        m.id === memory.id ? { ...m, inDiary: true } : m
-      );
-
-      const updatedDiary = [...character.diary, memory];
-      const updatedResources = [...character.resources, { name: `Diary: ${diaryName}` }];
+      await characterRequest(queryClient, character.id, "POST", "diary/lose");
 
-      await onSave({
-        memories: updatedMemories,
-        diary: updatedDiary,
-        resources: updatedResources,
+      toast({
+        title: "Diary Lost",
+        description: "The diary and every memory written in it are gone.",
       });
-
+    } catch (error: any) {
       toast({
-        title: "Success",
-        description: "Memory moved to diary",
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
       });
+    }
+  };
+
+  // Memory edits show their own errors and tell the caller whether the server accepted them
+  const runMemoryEdit = async (method: string, path: string, body?: object) => {
+    try {
+      await characterRequest(queryClient, character.id, method, path, body);
+      return true;
     } catch (error: any) {
       toast({
         variant: "destructive",
         title: "Error",
         description: error.message,
       });
+      return false;
     }
   };
 
+  const handleCreateMemory = (text: string) =>
+    runMemoryEdit("POST", "memories", { text });
+
+  const handleAddExperience = (memoryId: string, text: string) =>
+    runMemoryEdit("POST", `memories/${memoryId}/experiences`, { text });
+
+  const handleDeleteExperience = (memoryId: string, index: number) =>
+    runMemoryEdit("DELETE", `memories/${memoryId}/experiences/${index}`);
+
+  const handleForgetMemory = (memoryId: string) =>
+    runMemoryEdit("PATCH", `memories/${memoryId}`, { strikedOut: true });
+
+  const handleRenameMemory = (memoryId: string, title: string) =>
+    runMemoryEdit("PATCH", `memories/${memoryId}`, { title });
+
+  const handleReorderMemories = (memoryIds: string[]) =>
+    runMemoryEdit("PUT", "memories/order", { memoryIds });
+
+  const handleReorderExperiences = (memoryId: string, order: number[]) =>
+    runMemoryEdit("PUT", `memories/${memoryId}/experiences/order`, { order });
+
+  const handleMoveExperience = (fromMemoryId: string, index: number, toMemoryId: string, toIndex?: number) =>
+    runMemoryEdit("POST", `memories/${fromMemoryId}/experiences/${index}/move`, { toMemoryId, toIndex });
+
+  // Trait list each input adds to, as named by the trait routes
+  const traitTypes = {
+    skill: "skills",
+    resource: "resources",
+    character: "relationships",
+    mark: "marks",
+  } as const;
+
   const handleAdd = async (type: keyof typeof inputs) => {
     const value = inputs[type];
     if (!value.trim()) return;
 
     try {
-      const updates: Partial<Character> = {};
-      switch (type) {
-        case "skill":
-          updates.skills = updateTrait(character.skills, value, "add");
-          break;
-        case "resource":
-          updates.resources = updateTrait(character.resources, value, "add");
-          break;
-        case "character":
-          updates.relationships = updateTrait(character.relationships, value, "add");
-          break;
-        case "mark":
-          updates.marks = updateTrait(character.marks, value, "add");
-          break;
-      }
-
-      await onSave(updates);
+      await characterRequest(queryClient, character.id, "POST", `traits/${traitTypes[type]}`, {
+        name: value,
+        ...(type === "character" && { mortality }),
+        ...(type === "resource" && stationary && { stationary }),
+      });
       setInputs(prev => ({ ...prev, [type]: "" }));
+      if (type === "resource") setStationary(false);
 
       toast({
         title: "Success",
@@ -134,13 +148,7 @@ export function GameInterface({ character, onSave }: GameInterfaceProps) {
 
   const handleCheck = async (name: string) => {
     try {
-      // First make a local copy of the updated skills to show immediate feedback
-      const updatedSkills = updateTrait(character.skills, name, "check");
-      
-      // Save the updated skills to the server
-      await onSave({
-        skills: updatedSkills,
-      });
+      await characterRequest(queryClient, character.id, "PATCH", `traits/skills/${encodeURIComponent(name)}`, { checked: true });
       
       toast({
         title: "Success",
@@ -157,32 +165,28 @@ export function GameInterface({ character, onSave }: GameInterfaceProps) {
     }
   };
 
+  const handleUncheck = async (name: string) => {
+    try {
+      await characterRequest(queryClient, character.id, "PATCH", `traits/skills/${encodeURIComponent(name)}`, { checked: false });
+
+      toast({
+        title: "Success",
+        description: `Unchecked skill: ${name}`,
+      });
+
+      console.log(`Unchecked skill: ${name}`);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
   const handleStrike = async (type: keyof Character, name: string) => {
     try {
-      const updates: Partial<Character> = {};
-      let updatedTraits;
-      
-      switch (type) {
-        case "skills":
-          updatedTraits = updateTrait(character.skills, name, "strike");
-          updates.skills = updatedTraits;
-          break;
-        case "resources":
-          updatedTraits = updateTrait(character.resources, name, "strike");
-          updates.resources = updatedTraits;
-          break;
-        case "relationships":
-          updatedTraits = updateTrait(character.relationships, name, "strike");
-          updates.relationships = updatedTraits;
-          break;
-        case "marks":
-          updatedTraits = updateTrait(character.marks, name, "strike");
-          updates.marks = updatedTraits;
-          break;
-      }
-      
-      // Save the updates to the server
-      await onSave(updates);
+      await characterRequest(queryClient, character.id, "PATCH", `traits/${type}/${encodeURIComponent(name)}`, { strikedOut: true });
       
       // Show a success message
       const typeLabel = type === "relationships" ? "Character" : 
@@ -203,13 +207,92 @@ export function GameInterface({ character, onSave }: GameInterfaceProps) {
     }
   };
 
+  const handleRestore = async (type: keyof Character, name: string) => {
+    try {
+      await characterRequest(queryClient, character.id, "PATCH", `traits/${type}/${encodeURIComponent(name)}`, { strikedOut: false });
+
+      const typeLabel = type === "relationships" ? "Character" :
+                       type.charAt(0).toUpperCase() + type.slice(1, -1);
+
+      toast({
+        title: "Success",
+        description: `${typeLabel} restored: ${name}`,
+      });
+
+      console.log(`Restored ${type} trait: ${name}`);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleSetMortality = async (name: string, mortality: Mortality) => {
+    try {
+      await characterRequest(queryClient, character.id, "PATCH", `traits/relationships/${encodeURIComponent(name)}`, { mortality });
+
+      toast({
+        title: "Success",
+        description: `${name} is ${mortality}`,
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleLoseStationary = async () => {
+    const lost = character.resources.filter(r => r.stationary && !r.strikedOut).map(r => r.name);
+    try {
+      await characterRequest(queryClient, character.id, "POST", "traits/resources/lose-stationary");
+
+      toast({
+        title: "Stationary Resources Lost",
+        description: `Left behind: ${lost.join(", ")}`,
+      });
+
+      console.log(`Lost stationary resources: ${lost.join(", ")}`);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleDescribe = async (name: string, text: string) => {
+    try {
+      await characterRequest(queryClient, character.id, "POST", `traits/relationships/${encodeURIComponent(name)}/descriptors`, { text });
+      console.log(`Added descriptor to Character: ${name}`);
+      return true;
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+      return false;
+    }
+  };
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4">
       <div className="space-y-4">
         <CharacterSheet 
           character={character} 
           onCheck={handleCheck}
+          onUncheck={handleUncheck}
           onStrike={handleStrike}
+          onRestore={handleRestore}
+          onDescribe={handleDescribe}
+          onLoseStationary={handleLoseStationary}
+          onSetMortality={handleSetMortality}
         />
         <Card>
           <CardContent className="p-4 space-y-4">
@@ -244,6 +327,14 @@ export function GameInterface({ character, onSave }: GameInterfaceProps) {
                     }}
                     placeholder="Enter a resource..."
                   />
+                  <div className="flex items-center space-x-2 shrink-0">
+                    <Checkbox
+                      id="resource-stationary"
+                      checked={stationary}
+                      onCheckedChange={(checked) => setStationary(checked === true)}
+                    />
+                    <Label htmlFor="resource-stationary">Stationary</Label>
+                  </div>
                   <Button onClick={() => handleAdd("resource")}>Add</Button>
                 </div>
               </div>
@@ -261,6 +352,15 @@ export function GameInterface({ character, onSave }: GameInterfaceProps) {
                     }}
                     placeholder="Enter a character..."
                   />
+                  <Select value={mortality} onValueChange={(value) => setMortality(value as Mortality)}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="mortal">Mortal</SelectItem>
+                      <SelectItem value="immortal">Immortal</SelectItem>
+                    </SelectContent>
+                  </Select>
                   <Button onClick={() => handleAdd("character")}>Add</Button>
                 </div>
               </div>
@@ -288,12 +388,30 @@ export function GameInterface({ character, onSave }: GameInterfaceProps) {
       <div>
         <Card>
           <CardContent className="p-4">
-            <h2 className="text-2xl font-bold mb-4">Memories</h2>
-            <MemoryList
-              memories={character.memories}
-              onUpdate={handleMemoryUpdate}
-              onMoveToDiary={handleMoveToDiary}
-            />
+            <Tabs defaultValue="memories">
+              <TabsList className="mb-4">
+                <TabsTrigger value="memories">Memories</TabsTrigger>
+                <TabsTrigger value="diary">Diary</TabsTrigger>
+              </TabsList>
+              <TabsContent value="memories">
+                <MemoryList
+                  memories={character.memories}
+                  diary={character.diary}
+                  onCreateMemory={handleCreateMemory}
+                  onAddExperience={handleAddExperience}
+                  onDeleteExperience={handleDeleteExperience}
+                  onForget={handleForgetMemory}
+                  onMoveToDiary={handleMoveToDiary}
+                  onRename={handleRenameMemory}
+                  onReorderMemories={handleReorderMemories}
+                  onReorderExperiences={handleReorderExperiences}
+                  onMoveExperience={handleMoveExperience}
+                />
+              </TabsContent>
+              <TabsContent value="diary">
+                <DiaryView diary={character.diary} onLose={handleLoseDiary} />
+              </TabsContent>
+            </Tabs>
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,54 @@
+import { Fragment, type ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+// Renders the small part of markdown prompt text uses: paragraphs, line
+// breaks, "- " lists, **bold** and *italic* or _italic_. Everything is built
+// as React elements, so prompt text can never inject HTML.
+
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*]+\*|_[^_]+_)/g;
+
+function renderInline(text: string): ReactNode[] {
+  return text.split(INLINE_PATTERN).map((part, i) => {
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+      return <strong key={i}>{part.slice(2, -2)}</strong>;
+    }
+    if ((part.startsWith("*") && part.endsWith("*") || part.startsWith("_") && part.endsWith("_")) && part.length > 2) {
+      return <em key={i}>{part.slice(1, -1)}</em>;
+    }
+    return part;
+  });
+}
+
+function renderLines(lines: string[]): ReactNode[] {
+  return lines.map((line, i) => (
+    <Fragment key={i}>
+      {i > 0 && <br />}
+      {renderInline(line)}
+    </Fragment>
+  ));
+}
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+}
+
+export function Markdown({ text, className }: MarkdownProps) {
+  const blocks = text.trim().split(/\n\s*\n/);
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {blocks.map((block, i) => {
+        const lines = block.split("\n");
+        if (lines.every(line => /^\s*[-*]\s+/.test(line))) {
+          return (
+            <ul key={i} className="list-disc pl-6">
+              {lines.map((line, j) => <li key={j}>{renderInline(line.replace(/^\s*[-*]\s+/, ""))}</li>)}
+            </ul>
+          );
+        }
+        return <p key={i}>{renderLines(lines)}</p>;
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { Character, MemoryDecisionAction } from "@db/schema";
+import { canAddToDiary, hasActiveDiary, isActiveMemory, MAX_ACTIVE_MEMORIES } from "@db/rules";
+import { Loader2 } from "lucide-react";
+
+interface MemoryDecisionDialogProps {
+  character: Character;
+  // The response that needs a memory, or null when nothing is waiting
+  pendingEntry: { id: number; promptNumber: number; promptLetter: string; response: string } | null;
+  onResolve: (memoryId: string, action: MemoryDecisionAction, diaryName?: string) => Promise<void>;
+}
+
+// The rulebook leaves no way around this choice, so the dialog cannot be dismissed
+export function MemoryDecisionDialog({ character, pendingEntry, onResolve }: MemoryDecisionDialogProps) {
+  const [selectedMemoryId, setSelectedMemoryId] = useState<string | null>(null);
+  const [diaryName, setDiaryName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeMemories = (Array.isArray(character.memories) ? character.memories : []).filter(isActiveMemory);
+  const hasDiary = hasActiveDiary(character.diary);
+  const diaryFull = !canAddToDiary(character.diary);
+
+  const handleResolve = async (action: MemoryDecisionAction) => {
+    if (!selectedMemoryId) return;
+    setIsSaving(true);
+    try {
+      await onResolve(selectedMemoryId, action, action === "diary" && !hasDiary ? diaryName.trim() : undefined);
+      setSelectedMemoryId(null);
+      setDiaryName("");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!pendingEntry}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Your Mind Is Full</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your vampire already holds {MAX_ACTIVE_MEMORIES} memories. To keep your response to prompt{" "}
+            {pendingEntry?.promptNumber}{pendingEntry?.promptLetter} as a new memory, you must forget one
+            or write it into a diary.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {pendingEntry && (
+          <div className="italic text-muted-foreground border-l-2 pl-3 py-1 border-primary/30 text-sm line-clamp-3">
+            {pendingEntry.response}
+          </div>
+        )}
+
+        <RadioGroup
+          value={selectedMemoryId || ""}
+          onValueChange={setSelectedMemoryId}
+          className="space-y-2"
+        >
+          {activeMemories.map(memory => (
+            <div key={memory.id} className="flex items-center space-x-2 border p-3 rounded-md">
+              <RadioGroupItem id={`decision-${memory.id}`} value={memory.id} />
+              <Label htmlFor={`decision-${memory.id}`} className="flex-1">
+                <div className="font-medium">{memory.title}</div>
+                <div className="text-xs text-muted-foreground">
+                  {memory.experiences?.length || 0} experiences
+                </div>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        {!hasDiary && (
+          <div className="space-y-1">
+            <Label htmlFor="decision-diary-name" className="text-sm">Diary name (to start a diary)</Label>
+            <Input
+              id="decision-diary-name"
+              value={diaryName}
+              onChange={(e) => setDiaryName(e.target.value)}
+              placeholder="Enter a name for your diary..."
+            />
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleResolve("diary")}
+            disabled={isSaving || !selectedMemoryId || diaryFull || (!hasDiary && !diaryName.trim())}
+          >
+            {diaryFull ? "Diary Full" : "Move to Diary"}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => handleResolve("forget")}
+            disabled={isSaving || !selectedMemoryId}
+          >
+            {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Forget Memory
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
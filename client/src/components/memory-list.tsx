@@ -2,21 +2,57 @@ import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
-import { Memory, Experience } from "@db/schema";
+import { Memory, Experience, Diary } from "@db/schema";
+import {
+  canAddExperience,
+  canAddToDiary,
+  canCreateMemory,
+  hasActiveDiary,
+  MAX_ACTIVE_MEMORIES,
+  MAX_DIARY_MEMORIES,
+  MAX_EXPERIENCES_PER_MEMORY,
+} from "@db/rules";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
-import { BookMarked, X, Plus } from "lucide-react";
-import { nanoid } from 'nanoid';
+import { BookMarked, X, Plus, Pencil, GripVertical } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 interface MemoryListProps {
   memories: Memory[];
-  onUpdate: (memories: Memory[]) => Promise<void>;
-  onMoveToDiary: (memory: Memory, diaryName: string) => Promise<void>;
+  diary: Diary | null;
+  // Each edit resolves to whether the server accepted it
+  onCreateMemory: (text: string) => Promise<boolean>;
+  onAddExperience: (memoryId: string, text: string) => Promise<boolean>;
+  onDeleteExperience: (memoryId: string, index: number) => Promise<boolean>;
+  onForget: (memoryId: string) => Promise<boolean>;
+  // diaryName is only needed when a new diary has to be started
+  onMoveToDiary: (memory: Memory, diaryName?: string) => Promise<void>;
+  onRename: (memoryId: string, title: string) => Promise<boolean>;
+  onReorderMemories: (memoryIds: string[]) => Promise<boolean>;
+  onReorderExperiences: (memoryId: string, order: number[]) => Promise<boolean>;
+  onMoveExperience: (fromMemoryId: string, index: number, toMemoryId: string, toIndex?: number) => Promise<boolean>;
 }
 
-export function MemoryList({ memories = [], onUpdate, onMoveToDiary }: MemoryListProps) {
+// What is being dragged: a whole memory, or one experience inside a memory
+type DragItem =
+  | { type: "memory"; memoryId: string }
+  | { type: "experience"; memoryId: string; index: number };
+
+export function MemoryList({
+  memories = [],
+  diary,
+  onCreateMemory,
+  onAddExperience,
+  onDeleteExperience,
+  onForget,
+  onMoveToDiary,
+  onRename,
+  onReorderMemories,
+  onReorderExperiences,
+  onMoveExperience,
+}: MemoryListProps) {
   const [newExperience, setNewExperience] = useState("");
   const [selectedMemoryId, setSelectedMemoryId] = useState<string | null>(null);
   const [diaryDialog, setDiaryDialog] = useState<{isOpen: boolean; memory: Memory | null; name: string}>({
@@ -24,6 +60,11 @@ export function MemoryList({ memories = [], onUpdate, onMoveToDiary }: MemoryLis
     memory: null,
     name: ""
   });
+  const [editingTitle, setEditingTitle] = useState<{ memoryId: string | null; title: string }>({
+    memoryId: null,
+    title: ""
+  });
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
   const { toast } = useToast();
 
   const handleAddExperience = async () => {
@@ -32,32 +73,18 @@ export function MemoryList({ memories = [], onUpdate, onMoveToDiary }: MemoryLis
     // Find the selected memory
     const selectedMemory = memories.find(m => m.id === selectedMemoryId);
     
-    // Check if this memory already has 3 experiences
-    if (selectedMemory && selectedMemory.experiences && selectedMemory.experiences.length >= 3) {
+    // Check if this memory can hold another experience
+    if (selectedMemory && !canAddExperience(selectedMemory)) {
       toast({
         title: "Experience Limit Reached",
-        description: "This memory already has the maximum of 3 experiences.",
+        description: `This memory already has the maximum of ${MAX_EXPERIENCES_PER_MEMORY} experiences.`,
         variant: "destructive"
       });
       return;
     }
 
-    const experience: Experience = {
-      text: newExperience,
-      createdAt: new Date().toISOString(),
-    };
-
-    const updatedMemories = memories.map(memory => {
-      if (memory.id === selectedMemoryId) {
-        return {
-          ...memory,
-          experiences: [...(memory.experiences || []), experience],
-        };
-      }
-      return memory;
-    });
+    if (!(await onAddExperience(selectedMemoryId, newExperience))) return;
 
-    await onUpdate(updatedMemories);
     setNewExperience("");
     setSelectedMemoryId(null);
     
@@ -68,13 +95,11 @@ export function MemoryList({ memories = [], onUpdate, onMoveToDiary }: MemoryLis
   };
 
   const handleCreateMemory = async () => {
-    const activeMemories = memories.filter(m => !m.strikedOut);
-    
-    if (activeMemories.length >= 5) {
+    if (!canCreateMemory(memories)) {
       // Show warning that we need to strike out an existing memory
       toast({
         title: "Memory Limit Reached",
-        description: "You've reached the maximum of 5 memories. You need to strike out an existing memory to create a new one.",
+        description: `You've reached the maximum of ${MAX_ACTIVE_MEMORIES} memories. You need to strike out an existing memory or move one to a diary to create a new one.`,
         variant: "destructive"
       });
       return;
@@ -82,18 +107,8 @@ export function MemoryList({ memories = [], onUpdate, onMoveToDiary }: MemoryLis
 
     if (!newExperience.trim()) return;
 
-    const newMemory: Memory = {
-      id: nanoid(),
-      title: `Memory ${memories.length + 1}`,
-      experiences: [{
-        text: newExperience,
-        createdAt: new Date().toISOString(),
-      }],
-      inDiary: false,
-      strikedOut: false,
-    };
+    if (!(await onCreateMemory(newExperience))) return;
 
-    await onUpdate([...memories, newMemory]);
     setNewExperience("");
     toast({
       title: "Memory Created",
@@ -106,13 +121,7 @@ export function MemoryList({ memories = [], onUpdate, onMoveToDiary }: MemoryLis
     
     if (!memoryToStrike) return;
     
-    const updatedMemories = memories.map(memory =>
-      memory.id === memoryId
-        ? { ...memory, strikedOut: true }
-        : memory
-    );
-    
-    await onUpdate(updatedMemories);
+    if (!(await onForget(memoryId))) return;
     
     toast({
       title: "Memory Lost",
@@ -121,7 +130,13 @@ export function MemoryList({ memories = [], onUpdate, onMoveToDiary }: MemoryLis
     });
   };
 
-  const handleMoveToDiaryClick = (memory: Memory) => {
+  const handleMoveToDiaryClick = async (memory: Memory) => {
+    // An existing diary takes the memory straight away; only a new one needs a name
+    if (hasActiveDiary(diary)) {
+      await onMoveToDiary(memory);
+      return;
+    }
+
     setDiaryDialog({
       isOpen: true,
       memory,
@@ -131,46 +146,37 @@ export function MemoryList({ memories = [], onUpdate, onMoveToDiary }: MemoryLis
 
   const handleDiaryConfirm = async () => {
     if (diaryDialog.memory && diaryDialog.name.trim()) {
-      const memoryName = diaryDialog.memory.title;
-      const diaryName = diaryDialog.name.trim();
-      
-      await onMoveToDiary(diaryDialog.memory, diaryName);
+      await onMoveToDiary(diaryDialog.memory, diaryDialog.name.trim());
       
       setDiaryDialog({
         isOpen: false,
         memory: null,
         name: ""
       });
-      
+    }
+  };
+
+  // Scroll the prompt history to the entry an experience was recorded from
+  const handleJumpToPrompt = (experience: Experience) => {
+    const element = document.getElementById(`prompt-history-${experience.promptHistoryId}`);
+
+    if (!element) {
       toast({
-        title: "Memory Preserved",
-        description: `The memory "${memoryName}" has been preserved in the diary "${diaryName}".`
+        title: "Response Not Found",
+        description: `The response to Prompt ${experience.promptNumber}${experience.promptLetter} is no longer in your history.`,
+        variant: "destructive"
       });
+      return;
     }
+
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    element.classList.add("ring-2", "ring-orange-500");
+    setTimeout(() => element.classList.remove("ring-2", "ring-orange-500"), 2000);
   };
 
   // Handle deleting an individual experience
   const handleDeleteExperience = async (memoryId: string, experienceIndex: number) => {
-    // Create a copy of the memories array to work with
-    const updatedMemories = [...memories];
-    const memoryIndex = updatedMemories.findIndex(m => m.id === memoryId);
-    
-    if (memoryIndex === -1) return;
-    
-    const memory = updatedMemories[memoryIndex];
-    
-    if (!memory.experiences || memory.experiences.length <= experienceIndex) return;
-    
-    // Filter out the experience at the specified index
-    const updatedExperiences = memory.experiences.filter((_: Experience, i: number) => i !== experienceIndex);
-    
-    // Update the memory with the new experiences array
-    updatedMemories[memoryIndex] = {
-      ...memory,
-      experiences: updatedExperiences
-    };
-    
-    await onUpdate(updatedMemories);
+    if (!(await onDeleteExperience(memoryId, experienceIndex))) return;
     
     toast({
       title: "Experience Deleted",
@@ -178,22 +184,121 @@ export function MemoryList({ memories = [], onUpdate, onMoveToDiary }: MemoryLis
     });
   };
   
+  const handleSaveTitle = async () => {
+    const { memoryId, title } = editingTitle;
+    if (!memoryId || !title.trim()) return;
+
+    const memory = memories.find(m => m.id === memoryId);
+    if (memory && memory.title !== title.trim()) {
+      await onRename(memoryId, title.trim());
+    }
+    setEditingTitle({ memoryId: null, title: "" });
+  };
+
+  // Dropping on a memory card moves a dragged memory to its place (after it
+  // when dragging down, so the last card can be reached), or a dragged
+  // experience to the end of that memory
+  const handleDropOnMemory = async (target: Memory) => {
+    const item = dragItem;
+    setDragItem(null);
+    if (!item) return;
+
+    if (item.type === "memory") {
+      if (item.memoryId === target.id) return;
+      const draggingDown = memories.findIndex(m => m.id === item.memoryId) < memories.findIndex(m => m.id === target.id);
+      const ids = memories.map(m => m.id).filter(id => id !== item.memoryId);
+      ids.splice(ids.indexOf(target.id) + (draggingDown ? 1 : 0), 0, item.memoryId);
+      await onReorderMemories(ids);
+    } else if (item.memoryId !== target.id) {
+      if (!canAddExperience(target)) {
+        toast({
+          title: "Experience Limit Reached",
+          description: `"${target.title}" already has ${MAX_EXPERIENCES_PER_MEMORY} experiences.`,
+          variant: "destructive"
+        });
+        return;
+      }
+      await onMoveExperience(item.memoryId, item.index, target.id);
+    }
+  };
+
+  // Dropping on an experience puts the dragged experience in its place
+  const handleDropOnExperience = async (target: Memory, targetIndex: number) => {
+    const item = dragItem;
+    if (!item || item.type !== "experience") return;
+    setDragItem(null);
+
+    if (item.memoryId === target.id) {
+      if (item.index === targetIndex) return;
+      const order = target.experiences.map((_, i) => i).filter(i => i !== item.index);
+      order.splice(targetIndex, 0, item.index);
+      await onReorderExperiences(target.id, order);
+    } else {
+      if (!canAddExperience(target)) {
+        toast({
+          title: "Experience Limit Reached",
+          description: `"${target.title}" already has ${MAX_EXPERIENCES_PER_MEMORY} experiences.`,
+          variant: "destructive"
+        });
+        return;
+      }
+      await onMoveExperience(item.memoryId, item.index, target.id, targetIndex);
+    }
+  };
+
   return (
     <div className="space-y-4">
       <div className="grid grid-cols-1 gap-4">
         {Array.isArray(memories) && memories.map((memory) => (
           <Card
             key={memory.id}
+            draggable={editingTitle.memoryId !== memory.id}
+            onDragStart={() => setDragItem({ type: "memory", memoryId: memory.id })}
+            onDragEnd={() => setDragItem(null)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDropOnMemory(memory);
+            }}
             className={cn(
               "relative",
               memory.strikedOut && "opacity-50",
-              memory.inDiary && "border-primary"
+              memory.inDiary && "border-primary",
+              dragItem?.type === "memory" && dragItem.memoryId === memory.id && "opacity-60"
             )}
           >
             <CardContent className="p-4">
               <div className="flex justify-between items-start mb-2">
-                <h3 className="text-lg font-semibold">{memory.title}</h3>
+                {editingTitle.memoryId === memory.id ? (
+                  <Input
+                    autoFocus
+                    value={editingTitle.title}
+                    onChange={(e) => setEditingTitle(prev => ({ ...prev, title: e.target.value }))}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleSaveTitle();
+                      if (e.key === "Escape") setEditingTitle({ memoryId: null, title: "" });
+                    }}
+                    onBlur={handleSaveTitle}
+                    className="h-8 mr-2"
+                  />
+                ) : (
+                  <div className="flex items-center gap-1">
+                    <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab" />
+                    <h3 className="text-lg font-semibold">{memory.title}</h3>
+                  </div>
+                )}
                 <div className="flex gap-2">
+                  {editingTitle.memoryId !== memory.id && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setEditingTitle({ memoryId: memory.id, title: memory.title })}
+                      className="h-8 w-8"
+                      title="Rename Memory"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
                   {!memory.strikedOut && !memory.inDiary && (
                     <>
                       <Button
@@ -201,7 +306,8 @@ export function MemoryList({ memories = [], onUpdate, onMoveToDiary }: MemoryLis
                         size="icon"
                         onClick={() => handleMoveToDiaryClick(memory)}
                         className="h-8 w-8"
-                        title="Move to Diary"
+                        disabled={!canAddToDiary(diary)}
+                        title={canAddToDiary(diary) ? "Move to Diary" : `The diary is full (${MAX_DIARY_MEMORIES} memories)`}
                       >
                         <BookMarked className="h-4 w-4" />
                       </Button>
@@ -222,16 +328,47 @@ export function MemoryList({ memories = [], onUpdate, onMoveToDiary }: MemoryLis
                 {Array.isArray(memory.experiences) && memory.experiences.map((exp, i) => (
                   <div 
                     key={i}
-                    className="flex justify-between items-start group"
+                    draggable={!memory.strikedOut && !memory.inDiary}
+                    onDragStart={(e) => {
+                      // Keep the memory card from starting its own drag
+                      e.stopPropagation();
+                      setDragItem({ type: "experience", memoryId: memory.id, index: i });
+                    }}
+                    onDragEnd={() => setDragItem(null)}
+                    onDrop={(e) => {
+                      if (dragItem?.type !== "experience") return;
+                      e.preventDefault();
+                      e.stopPropagation();
+                      handleDropOnExperience(memory, i);
+                    }}
+                    className={cn(
+                      "flex justify-between items-start group",
+                      !memory.strikedOut && !memory.inDiary && "cursor-grab"
+                    )}
                   >
-                    <p
-                      className={cn(
-                        "text-sm flex-1 pr-2",
-                        memory.strikedOut && "line-through"
+                    <div className="flex-1 pr-2">
+                      <p
+                        className={cn(
+                          "text-sm",
+                          memory.strikedOut && "line-through"
+                        )}
+                      >
+                        {exp.text}
+                      </p>
+                      {exp.promptHistoryId && (
+                        <Badge
+                          variant="outline"
+                          className="mt-1 cursor-pointer text-muted-foreground hover:text-foreground"
+                          onClick={() => handleJumpToPrompt(exp)}
+                          title="Show the prompt response this experience came from"
+                        >
+                          from Prompt {exp.promptNumber}{exp.promptLetter}
+                        </Badge>
                       )}
-                    >
-                      {exp.text}
-                    </p>
+                      {exp.year !== undefined && (
+                        <span className="text-xs text-muted-foreground ml-2">Year {exp.year}</span>
+                      )}
+                    </div>
                     {!memory.strikedOut && !memory.inDiary && (
                       <Button
                         variant="ghost"
@@ -271,7 +408,8 @@ export function MemoryList({ memories = [], onUpdate, onMoveToDiary }: MemoryLis
         />
         <Button 
           onClick={() => selectedMemoryId ? handleAddExperience() : handleCreateMemory()}
-          disabled={!newExperience.trim()}
+          disabled={!newExperience.trim() || (!selectedMemoryId && !canCreateMemory(memories))}
+          title={!selectedMemoryId && !canCreateMemory(memories) ? `You already hold ${MAX_ACTIVE_MEMORIES} memories` : undefined}
         >
           <Plus className="h-4 w-4 mr-2" />
           {selectedMemoryId ? "Add to Memory" : "New Memory"}
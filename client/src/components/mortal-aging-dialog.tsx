@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { characterRequest } from "@/lib/character-request";
+import type { Character, Trait } from "@db/schema";
+import { MORTAL_LIFESPAN_PROMPTS } from "@db/rules";
+import { Loader2, X } from "lucide-react";
+
+interface MortalAgingDialogProps {
+  character: Character;
+  // Mortals the server thinks have probably died; empty closes the dialog
+  mortals: Trait[];
+  onClose: () => void;
+}
+
+// After a prompt, reminds the player that mortals they have known for a long
+// time have probably died of old age. Striking one out is still their call.
+export function MortalAgingDialog({ character, mortals, onClose }: MortalAgingDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [striking, setStriking] = useState<string | null>(null);
+  const [livingOn, setLivingOn] = useState(false);
+  // Mortals struck out from this dialog, so they drop off the list
+  const [struck, setStruck] = useState<string[]>([]);
+  const remaining = mortals.filter(m => !struck.includes(m.name));
+
+  const handleStrike = async (name: string) => {
+    setStriking(name);
+    try {
+      const res = await fetch(`/api/character/${character.id}/traits/relationships/${encodeURIComponent(name)}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-cache"
+        },
+        body: JSON.stringify({ strikedOut: true }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to strike out the Character");
+      }
+
+      queryClient.setQueryData(["/api/character", String(character.id)], await res.json());
+      toast({
+        title: "Character Lost",
+        description: `${name} has died of old age.`,
+      });
+
+      setStruck(prev => [...prev, name]);
+      if (remaining.length === 1) {
+        setStruck([]);
+        onClose();
+      }
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    } finally {
+      setStriking(null);
+    }
+  };
+
+  // The server counts the lifespan of the mortals left on the list again from
+  // now, so they are not brought up after every prompt
+  const handleLiveOn = async () => {
+    setLivingOn(true);
+    try {
+      await characterRequest(queryClient, character.id, "POST", "traits/relationships/live-on", {
+        names: remaining.map(m => m.name),
+      });
+      setStruck([]);
+      onClose();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    } finally {
+      setLivingOn(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={remaining.length > 0}
+      onOpenChange={(open) => {
+        if (!open && !livingOn) {
+          handleLiveOn();
+        }
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Time Takes Its Toll</DialogTitle>
+          <DialogDescription>
+            These mortals came into your vampire's life at least {MORTAL_LIFESPAN_PROMPTS} prompts ago
+            and have probably died of old age. Strike out any who have.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {remaining.map(mortal => (
+            <div key={mortal.name} className="flex items-center justify-between border rounded-md p-3">
+              <span>{mortal.name}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive"
+                disabled={striking !== null || livingOn}
+                onClick={() => handleStrike(mortal.name)}
+              >
+                {striking === mortal.name ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <X className="h-4 w-4 mr-1" />
+                )}
+                Strike Out
+              </Button>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={striking !== null || livingOn}
+            onClick={handleLiveOn}
+          >
+            {livingOn && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            They Live On
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
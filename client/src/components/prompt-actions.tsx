@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import type { Character, Mortality, PromptAction, Trait } from "@db/schema";
+import { isActiveMemory } from "@db/rules";
+import { cn } from "@/lib/utils";
+import { characterRequest } from "@/lib/character-request";
+import { Loader2 } from "lucide-react";
+
+// Singular and plural names as the character sheet shows them
+const TARGET_LABELS: Record<PromptAction["target"], [string, string]> = {
+  skills: ["Skill", "Skills"],
+  resources: ["Resource", "Resources"],
+  relationships: ["Character", "Characters"],
+  marks: ["Mark", "Marks"],
+  memories: ["Memory", "Memories"],
+};
+
+function actionTitle(action: PromptAction) {
+  const verb = action.kind === "create" ? "Create" : action.kind === "check" ? "Check" : "Lose";
+  const [singular, plural] = TARGET_LABELS[action.target];
+  const quality = action.mortality || (action.stationary ? "stationary" : "");
+  const amount = action.count === "all" ? "all" : action.count === 1 ? "a" : String(action.count);
+  return [verb, amount, quality, action.count === 1 ? singular : plural].filter(Boolean).join(" ");
+}
+
+// Traits a lose or check action can be applied to
+function eligibleTraits(character: Character, action: PromptAction): Trait[] {
+  if (action.target === "memories") return [];
+  return (character[action.target] || []).filter(t =>
+    !t.strikedOut &&
+    (action.kind !== "check" || !t.checked) &&
+    (!action.mortality || t.mortality === action.mortality) &&
+    (!action.stationary || t.stationary)
+  );
+}
+
+interface PromptActionsProps {
+  character: Character;
+  actions: PromptAction[];
+}
+
+// The instructions read out of the current prompt, as a checklist. Each one
+// opens a small dialog set up for it; the parent remounts this per prompt so
+// the checklist starts fresh.
+export function PromptActions({ character, actions }: PromptActionsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // How many times each action has been carried out, by index, and which
+  // ones the player has ticked off themselves
+  const [progress, setProgress] = useState<number[]>(() => actions.map(() => 0));
+  const [ticked, setTicked] = useState<boolean[]>(() => actions.map(() => false));
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [mortality, setMortality] = useState<Mortality>("mortal");
+  const [stationary, setStationary] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openAction = openIndex !== null ? actions[openIndex] : null;
+  const isDone = (index: number) => {
+    const action = actions[index];
+    if (ticked[index]) return true;
+    return action.count === "all"
+      ? progress[index] > 0 && eligibleTraits(character, action).length === 0
+      : progress[index] >= action.count;
+  };
+
+  const open = (index: number) => {
+    const action = actions[index];
+    setName("");
+    setMortality(action.mortality || "mortal");
+    setStationary(!!action.stationary);
+    setOpenIndex(index);
+  };
+
+  // Runs one step of the open action and closes the dialog once it is complete
+  const perform = async (method: string, path: string, body: object | undefined, description: string) => {
+    if (openIndex === null || !openAction) return;
+    setIsSaving(true);
+    try {
+      await characterRequest(queryClient, character.id, method, path, body);
+      toast({ title: "Success", description });
+
+      const done = progress[openIndex] + 1;
+      setProgress(prev => prev.map((value, i) => i === openIndex ? done : value));
+      setName("");
+      // "Lose all" stays open until the player has gone through the list,
+      // unless it was the one-step loss of every stationary Resource
+      if (openAction.count === "all" ? openAction.stationary : done >= openAction.count) {
+        setOpenIndex(null);
+      }
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = () => {
+    if (!openAction || !name.trim()) return;
+    if (openAction.target === "memories") {
+      perform("POST", "memories", { text: name }, `Created a memory: ${name}`);
+      return;
+    }
+    perform("POST", `traits/${openAction.target}`, {
+      name,
+      ...(openAction.target === "relationships" && { mortality }),
+      ...(openAction.target === "resources" && stationary && { stationary }),
+    }, `Added ${TARGET_LABELS[openAction.target][0]}: ${name}`);
+  };
+
+  if (actions.length === 0) return null;
+
+  const renderDialogBody = (action: PromptAction) => {
+    if (action.kind === "create") {
+      return (
+        <div className="space-y-3">
+          <Input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+            placeholder={action.target === "memories"
+              ? "The first experience of the memory..."
+              : `Name the ${TARGET_LABELS[action.target][0]}...`}
+          />
+          {action.target === "relationships" && (
+            <Select value={mortality} onValueChange={(value) => setMortality(value as Mortality)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mortal">Mortal</SelectItem>
+                <SelectItem value="immortal">Immortal</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          {action.target === "resources" && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="prompt-action-stationary"
+                checked={stationary}
+                onCheckedChange={(checked) => setStationary(checked === true)}
+              />
+              <Label htmlFor="prompt-action-stationary">Stationary</Label>
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    if (action.target === "memories") {
+      const memories = (character.memories || []).filter(isActiveMemory);
+      return (
+        <div className="space-y-2">
+          {memories.length === 0 && <p className="text-sm text-muted-foreground">There are no memories left to lose.</p>}
+          {memories.map(memory => (
+            <div key={memory.id} className="flex items-center justify-between border rounded-md p-3">
+              <span>{memory.title}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive"
+                disabled={isSaving}
+                onClick={() => perform("PATCH", `memories/${memory.id}`, { strikedOut: true }, `Forgot "${memory.title}"`)}
+              >
+                Forget
+              </Button>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    const traits = eligibleTraits(character, action);
+    if (action.count === "all" && action.stationary) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          {traits.length > 0
+            ? `Your vampire leaves behind ${traits.map(t => t.name).join(", ")}.`
+            : "There are no stationary Resources left to lose."}
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        {traits.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            There are no {TARGET_LABELS[action.target][1]} to {action.kind === "check" ? "check" : "lose"}.
+          </p>
+        )}
+        {traits.map(trait => (
+          <div key={trait.name} className="flex items-center justify-between border rounded-md p-3">
+            <span>{trait.name}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              className={cn(action.kind === "lose" && "text-destructive")}
+              disabled={isSaving}
+              onClick={() => perform(
+                "PATCH",
+                `traits/${action.target}/${encodeURIComponent(trait.name)}`,
+                action.kind === "check" ? { checked: true } : { strikedOut: true },
+                `${action.kind === "check" ? "Checked" : "Lost"} ${TARGET_LABELS[action.target][0]}: ${trait.name}`
+              )}
+            >
+              {action.kind === "check" ? "Check" : "Strike Out"}
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-muted-foreground">This Prompt Asks You To</h3>
+      <ul className="space-y-1">
+        {actions.map((action, index) => (
+          <li key={index} className="flex items-center justify-between gap-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`prompt-action-${index}`}
+                checked={isDone(index)}
+                onCheckedChange={(checked) => {
+                  setTicked(prev => prev.map((value, i) => i === index ? checked === true : value));
+                  if (checked !== true) setProgress(prev => prev.map((value, i) => i === index ? 0 : value));
+                }}
+              />
+              <Label
+                htmlFor={`prompt-action-${index}`}
+                className={cn(isDone(index) && "line-through text-muted-foreground")}
+              >
+                {actionTitle(action)}
+                {typeof action.count === "number" && action.count > 1 && ` (${Math.min(progress[index], action.count)}/${action.count})`}
+              </Label>
+            </div>
+            {!isDone(index) && (
+              <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => open(index)}>
+                {action.kind === "create" ? "Create" : action.kind === "check" ? "Check" : "Lose"}
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <Dialog open={!!openAction} onOpenChange={(isOpen) => !isOpen && setOpenIndex(null)}>
+        <DialogContent>
+          {openAction && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{actionTitle(openAction)}</DialogTitle>
+                <DialogDescription>The prompt says: "{openAction.text}"</DialogDescription>
+              </DialogHeader>
+              {renderDialogBody(openAction)}
+              {openAction.kind === "create" && (
+                <DialogFooter>
+                  <Button onClick={handleCreate} disabled={isSaving || !name.trim()}>
+                    {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                    Add
+                  </Button>
+                </DialogFooter>
+              )}
+              {openAction.count === "all" && openAction.stationary && (
+                <DialogFooter>
+                  <Button
+                    variant="destructive"
+                    disabled={isSaving || eligibleTraits(character, openAction).length === 0}
+                    onClick={() => perform("POST", "traits/resources/lose-stationary", undefined, "Stationary Resources lost")}
+                  >
+                    {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                    Lose Them
+                  </Button>
+                </DialogFooter>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
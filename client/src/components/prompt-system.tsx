@@ -3,12 +3,32 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { Textarea } from "@/components/ui/textarea";
-import type { Character, Prompt, Memory } from "@db/schema";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import type { Character, Era, Prompt, Memory, DiceMode, MemoryDecisionAction, PromptHistoryKind, Trait } from "@db/schema";
+import { MemoryDecisionDialog } from "./memory-decision-dialog";
+import { AdvanceTimeDialog } from "./advance-time-dialog";
+import { MortalAgingDialog } from "./mortal-aging-dialog";
+import { PromptActions } from "./prompt-actions";
+import { Markdown } from "./markdown";
+import { characterRequest } from "@/lib/character-request";
+import { canAddExperience, eraAt, memoriesWithRoom, MAX_EXPERIENCES_PER_MEMORY } from "@db/rules";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { Loader2, SaveAll } from "lucide-react";
+import { Loader2, SaveAll, Undo2, Pencil, BookOpen, Hourglass } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 
 // Enhanced PromptHistory type that includes joined fields from the prompt
 interface EnhancedPromptHistory {
@@ -17,13 +37,25 @@ interface EnhancedPromptHistory {
   promptId: number;
   promptNumber: number;
   promptLetter: string;
-  diceRoll: { d10: number; d6: number };
+  kind?: PromptHistoryKind;
+  // Diary consultations have no roll
+  diceRoll: { d10: number; d6: number; mode?: DiceMode } | null;
   response: string;
+  diaryMemoryId?: string | null;
+  // In-game year when the entry was made
+  year?: number | null;
+  // True while the response waits for the player to give up a memory
+  memoryPending?: boolean;
   createdAt: string | Date;
   // Additional fields from the join
   promptContent?: string;
 }
 
+// Physical dice results must be a real face of a d10 and a d6
+function isValidManualRoll(roll: { d10: number; d6: number }) {
+  return roll.d10 >= 1 && roll.d10 <= 10 && roll.d6 >= 1 && roll.d6 <= 6;
+}
+
 interface PromptSystemProps {
   character: Character;
   onUpdate: (updates: Partial<Character>) => Promise<void>;
@@ -31,10 +63,23 @@ interface PromptSystemProps {
 
 export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
   const [isRolling, setIsRolling] = useState(false);
+  const [isUndoing, setIsUndoing] = useState(false);
+  // Previous response currently being edited inline
+  const [editingResponse, setEditingResponse] = useState<{ id: number | null; text: string; isSaving: boolean }>({
+    id: null,
+    text: "",
+    isSaving: false
+  });
   const [response, setResponse] = useState("");
   // Always start with defaults if character values are null
   const [localPromptNumber, setLocalPromptNumber] = useState<number>(character.currentPrompt || 1);
   const [localPromptLetter, setLocalPromptLetter] = useState<string>(character.currentLetter || 'a');
+  // Results typed in from physical dice when the character uses manual dice
+  const [manualDice, setManualDice] = useState({ d10: "", d6: "" });
+  const [timeDialogOpen, setTimeDialogOpen] = useState(false);
+  // Mortals the last turn suggested have died of old age
+  const [agingMortals, setAgingMortals] = useState<Trait[]>([]);
+  const isManualDice = character.diceMode === "manual";
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
@@ -42,10 +87,13 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
   const [memoryDialog, setMemoryDialog] = useState<{
     isOpen: boolean;
     experience: string | null;
+    // History entry the experience is being saved from
+    source: Pick<EnhancedPromptHistory, "id" | "promptNumber" | "promptLetter" | "year"> | null;
     selectedMemoryId: string | null;
   }>({
     isOpen: false,
     experience: null,
+    source: null,
     selectedMemoryId: null
   });
 
@@ -90,6 +138,7 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
           promptLetter: localPromptLetter,
           entry: "error",
           content: "Error loading prompt. Please try refreshing the page.",
+          actions: [],
           isPlaceholder: true
         } as Prompt;
       }
@@ -143,6 +192,29 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
     retryDelay: (attempt) => Math.min(1000 * 2 ** attempt, 10000), // Exponential backoff
   });
 
+  // Eras name the stretch of time the character is in
+  const { data: eras } = useQuery<Era[]>({
+    queryKey: ["/api/eras", character.id],
+    queryFn: async () => {
+      const res = await fetch(`/api/character/${character.id}/eras`, {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+          'Pragma': 'no-cache'
+        }
+      });
+
+      if (!res.ok) {
+        throw new Error(await res.text());
+      }
+
+      return res.json();
+    },
+    enabled: !!character.id,
+    refetchOnWindowFocus: false,
+  });
+  const currentEra = eras ? eraAt(eras, new Date()) : null;
+
   // Effect to refetch prompt history when character changes
   useEffect(() => {
     if (character.id) {
@@ -161,11 +233,10 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
         throw new Error("Please enter a response before rolling dice");
       }
 
-      const d10 = Math.floor(Math.random() * 10) + 1;
-      const d6 = Math.floor(Math.random() * 6) + 1;
-      const movement = d10 - d6;
-
-      console.log("Rolling dice:", { d10, d6, movement });
+      const manualRoll = { d10: parseInt(manualDice.d10), d6: parseInt(manualDice.d6) };
+      if (isManualDice && !isValidManualRoll(manualRoll)) {
+        throw new Error("Enter a d10 result between 1 and 10 and a d6 result between 1 and 6");
+      }
 
       // Save prompt response and update character
       if (currentPrompt) {
@@ -182,12 +253,29 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
               promptId: currentPrompt.id,
               promptNumber: localPromptNumber, // Use our local state for consistency
               promptLetter: localPromptLetter, // Include the current letter
-              diceRoll: { d10, d6 },
+              // Dice are rolled by the server unless the player is using physical dice
+              diceRoll: isManualDice ? manualRoll : undefined,
               response,
             }),
             credentials: "include",
           });
 
+          if (result.status === 409) {
+            // Another window already answered this prompt, or left a memory decision open;
+            // catch up with the character instead
+            const conflict = await result.json();
+            setLocalPromptNumber(conflict.character.currentPrompt);
+            setLocalPromptLetter(conflict.character.currentLetter);
+            queryClient.setQueryData(["/api/character", String(character.id)], conflict.character);
+            await queryClient.invalidateQueries({ queryKey: ["/api/prompt-history", character.id] });
+            toast({
+              variant: "destructive",
+              title: conflict.memoryPending ? "Memory Decision Needed" : "Prompt Already Answered",
+              description: `${conflict.error} Your response has been preserved.`,
+            });
+            return;
+          }
+
           if (!result.ok) {
             const errorText = await result.text();
             console.error("Error creating prompt history:", errorText);
@@ -199,15 +287,13 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
 
           // Clear response
           setResponse("");
+          setManualDice({ d10: "", d6: "" });
 
           // Show roll results with any prompt adjustment info
-          let toastMessage = `D10: ${d10}, D6: ${d6}, Movement: ${movement}`;
-          
-          // Use our local state which is guaranteed to be in sync
-          const currentPromptValue = localPromptNumber || 1;
-          const currentLetterValue = localPromptLetter || 'a';
+          const { d10, d6 } = data.diceRoll;
+          let toastMessage = `D10: ${d10}, D6: ${d6}, Movement: ${data.movement}`;
           
-          if (movement === 0) {
+          if (data.movement === 0) {
             // For equal dice values, we stay at the same prompt number but change letter
             toastMessage += `. Equal dice values, staying at prompt ${data.nextPrompt}${data.nextLetter}`;
           } else {
@@ -215,7 +301,7 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
           }
           
           toast({
-            title: "Dice Rolled!",
+            title: isManualDice ? "Dice Recorded!" : "Dice Rolled!",
             description: toastMessage,
           });
 
@@ -223,19 +309,11 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
           setLocalPromptNumber(data.nextPrompt);
           setLocalPromptLetter(data.nextLetter);
           
-          // Add response to memory if memory was created
-          let characterUpdates: Partial<Character> = { 
-            currentPrompt: data.nextPrompt,
-            currentLetter: data.nextLetter
-          };
-          
-          // If the server managed to add the experience to a memory, update the memories
-          if (data.updatedMemories) {
-            characterUpdates.memories = data.updatedMemories;
-          }
-          
-          // Update character in the database
-          await onUpdate(characterUpdates);
+          // The server has already moved the character and stored the experience,
+          // so take its copy rather than sending a second update
+          queryClient.setQueryData(["/api/character", String(character.id)], data.character);
+          // A pending memory decision comes first; the mortals will still be old next turn
+          setAgingMortals(data.memoryDecisionRequired ? [] : data.agingMortals || []);
 
           // Immediately add the prompt content to the cache to avoid loading state
           if (data.promptInfo) {
@@ -307,6 +385,136 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
     }
   };
 
+  // Revert the most recent turn: its history entry, prompt position and stored experience
+  const undoLastTurn = async (historyId: number) => {
+    setIsUndoing(true);
+    try {
+      const res = await fetch(`/api/prompt-history/${historyId}/undo`, {
+        method: "POST",
+        headers: { "Cache-Control": "no-cache" },
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to undo the last turn");
+      }
+
+      const data = await res.json();
+      console.log("Undid prompt turn:", data.undone.id);
+
+      // Put the previous position and response back so the turn can be replayed
+      setLocalPromptNumber(data.character.currentPrompt);
+      setLocalPromptLetter(data.character.currentLetter);
+      if (data.undone.kind !== "diary") {
+        setResponse(data.undone.response);
+      }
+
+      queryClient.setQueryData(["/api/character", String(character.id)], data.character);
+      await queryClient.invalidateQueries({ queryKey: ["/api/prompt-history", character.id] });
+
+      toast({
+        title: "Turn Undone",
+        description: `Returned to prompt ${data.character.currentPrompt}${data.character.currentLetter}.`,
+      });
+    } catch (error: any) {
+      console.error("Error undoing last turn:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  // Save an edited response; the server also rewrites the experience recorded from it
+  const saveEditedResponse = async () => {
+    if (editingResponse.id === null || !editingResponse.text.trim()) return;
+
+    setEditingResponse(prev => ({ ...prev, isSaving: true }));
+    try {
+      const res = await fetch(`/api/prompt-history/${editingResponse.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-cache"
+        },
+        body: JSON.stringify({ response: editingResponse.text }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to save the response");
+      }
+
+      const data = await res.json();
+      queryClient.setQueryData(["/api/character", String(character.id)], data.character);
+      await queryClient.invalidateQueries({ queryKey: ["/api/prompt-history", character.id] });
+
+      setEditingResponse({ id: null, text: "", isSaving: false });
+      toast({
+        title: "Response Updated",
+        description: "Your response and any experience recorded from it have been updated.",
+      });
+    } catch (error: any) {
+      console.error("Error editing response:", error);
+      setEditingResponse(prev => ({ ...prev, isSaving: false }));
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  // Give up a memory so the pending response can become a new one
+  const resolveMemoryDecision = async (memoryId: string, action: MemoryDecisionAction, diaryName?: string) => {
+    const pendingEntry = promptHistory?.find(h => h.memoryPending);
+    if (!pendingEntry) return;
+
+    try {
+      const res = await fetch(`/api/prompt-history/${pendingEntry.id}/memory-decision`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-cache"
+        },
+        body: JSON.stringify({ memoryId, action, diaryName }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to make room for the new memory");
+      }
+
+      const data = await res.json();
+      queryClient.setQueryData(["/api/character", String(character.id)], data.character);
+      await queryClient.invalidateQueries({ queryKey: ["/api/prompt-history", character.id] });
+
+      toast({
+        title: action === "forget" ? "Memory Lost" : "Memory Preserved",
+        description: `Your response is now the memory "${data.memory.title}".`,
+      });
+    } catch (error: any) {
+      console.error("Error resolving memory decision:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  const handleDiceModeChange = async (manual: boolean) => {
+    const diceMode: DiceMode = manual ? "manual" : "server";
+    await onUpdate({ diceMode });
+    setManualDice({ d10: "", d6: "" });
+  };
+
   const isLoading = promptLoading || historyLoading;
 
   if (isLoading) {
@@ -329,10 +537,9 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
     }
 
     // Find the selected memory
-    const memories = Array.isArray(character.memories) ? [...character.memories] : [];
-    const memoryIndex = memories.findIndex(m => m.id === memoryDialog.selectedMemoryId);
+    const memory = (character.memories || []).find(m => m.id === memoryDialog.selectedMemoryId);
     
-    if (memoryIndex === -1) {
+    if (!memory) {
       toast({
         variant: "destructive",
         title: "Error",
@@ -341,33 +548,22 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
       return;
     }
     
-    const memory = memories[memoryIndex];
-    
-    // Check if this memory already has 3 experiences
-    if (memory.experiences && memory.experiences.length >= 3) {
+    // Check if this memory can hold another experience
+    if (!canAddExperience(memory)) {
       toast({
         variant: "destructive",
         title: "Memory Full",
-        description: "This memory already has the maximum of 3 experiences. Please select a different memory."
+        description: `This memory already has the maximum of ${MAX_EXPERIENCES_PER_MEMORY} experiences. Please select a different memory.`
       });
       return;
     }
     
-    // Create the new experience
-    const newExperience = {
-      text: memoryDialog.experience,
-      createdAt: new Date().toISOString()
-    };
-    
-    // Add the experience to the memory
-    memories[memoryIndex] = {
-      ...memory,
-      experiences: [...(memory.experiences || []), newExperience]
-    };
-    
-    // Update the character
+    // The server ties the experience to the turn it came from and that turn's year
     try {
-      await onUpdate({ memories });
+      await characterRequest(queryClient, character.id, "POST", `memories/${memory.id}/experiences`, {
+        text: memoryDialog.experience,
+        ...(memoryDialog.source && { promptHistoryId: memoryDialog.source.id }),
+      });
       
       toast({
         title: "Experience Saved",
@@ -378,32 +574,62 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
       setMemoryDialog({
         isOpen: false,
         experience: null,
+        source: null,
         selectedMemoryId: null
       });
-    } catch (error) {
-      console.error("Error updating character memories:", error);
+    } catch (error: any) {
+      console.error("Error saving experience:", error);
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Failed to save the experience. Please try again."
+        description: error.message,
       });
     }
   };
 
   return (
     <Card>
-      <CardHeader className="pb-2">
-        <CardTitle className="text-sm text-muted-foreground font-medium">
-          Prompt {localPromptNumber}{localPromptLetter}
-        </CardTitle>
+      <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+        <div className="flex items-center gap-2">
+          <CardTitle className="text-sm text-muted-foreground font-medium">
+            Prompt {localPromptNumber}{localPromptLetter}
+            {character.currentYear !== null && <> &middot; Year {character.currentYear}</>}
+            {currentEra && <> &middot; {currentEra.name}</>}
+          </CardTitle>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setTimeDialogOpen(true)}>
+            <Hourglass className="h-3 w-3 mr-1" />
+            {character.currentYear !== null ? "Time Passes" : "Set Year"}
+          </Button>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="manual-dice"
+            checked={isManualDice}
+            onCheckedChange={handleDiceModeChange}
+          />
+          <Label htmlFor="manual-dice" className="text-xs text-muted-foreground">
+            Physical dice
+          </Label>
+        </div>
       </CardHeader>
       <CardContent className="space-y-6">
         {currentPrompt && (
           <div className="prose dark:prose-invert max-w-none">
-            <p className="text-xl font-medium leading-relaxed text-orange-500 dark:text-orange-400">{currentPrompt.content}</p>
+            <Markdown
+              text={currentPrompt.content}
+              className="text-xl font-medium leading-relaxed text-orange-500 dark:text-orange-400"
+            />
           </div>
         )}
 
+        {currentPrompt && (
+          <PromptActions
+            key={`${localPromptNumber}${localPromptLetter}`}
+            character={character}
+            actions={currentPrompt.actions || []}
+          />
+        )}
+
         <div className="space-y-3">
           <h3 className="text-base font-medium text-foreground">Your Response</h3>
           <Textarea
@@ -412,41 +638,117 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
             placeholder="Write your response to this prompt..."
             className="min-h-[120px] text-base"
           />
+          {isManualDice && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="manual-d10" className="text-orange-500">D10</Label>
+                <Input
+                  id="manual-d10"
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={manualDice.d10}
+                  onChange={(e) => setManualDice(prev => ({ ...prev, d10: e.target.value }))}
+                  placeholder="1-10"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="manual-d6" className="text-blue-500">D6</Label>
+                <Input
+                  id="manual-d6"
+                  type="number"
+                  min={1}
+                  max={6}
+                  value={manualDice.d6}
+                  onChange={(e) => setManualDice(prev => ({ ...prev, d6: e.target.value }))}
+                  placeholder="1-6"
+                />
+              </div>
+            </div>
+          )}
           <Button 
             onClick={rollDice} 
-            disabled={isRolling || !response.trim()}
+            disabled={isRolling || !response.trim() || (isManualDice && (!manualDice.d10 || !manualDice.d6))}
             className="w-full bg-orange-500 hover:bg-orange-600 text-white"
             size="lg"
           >
             {isRolling ? (
               <>
                 <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                Rolling dice...
+                {isManualDice ? "Recording dice..." : "Rolling dice..."}
               </>
             ) : (
-              "Roll Dice & Continue"
+              isManualDice ? "Record Dice & Continue" : "Roll Dice & Continue"
             )}
           </Button>
         </div>
 
         {promptHistory && promptHistory.length > 0 && (
           <div className="space-y-4">
-            <h3 className="font-semibold text-lg">Previous Responses</h3>
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-lg">Previous Responses</h3>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={isUndoing || isRolling}>
+                    {isUndoing ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <Undo2 className="h-4 w-4 mr-1" />
+                    )}
+                    Undo Last Turn
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Undo your last turn?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {promptHistory[promptHistory.length - 1].kind === "diary" ? (
+                        <>Your last diary consultation will be removed from the history.</>
+                      ) : (
+                        <>
+                          Your response to prompt {promptHistory[promptHistory.length - 1].promptNumber}
+                          {promptHistory[promptHistory.length - 1].promptLetter} will be removed, along with the
+                          experience it added to your memories, and you will return to that prompt.
+                        </>
+                      )}
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => undoLastTurn(promptHistory[promptHistory.length - 1].id)}>
+                      Undo Turn
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
             <div className="space-y-6">
               {[...promptHistory].reverse().map((history) => (
                 <div
                   key={history.id}
-                  className="rounded-lg border bg-card text-card-foreground p-4 shadow-sm"
+                  id={`prompt-history-${history.id}`}
+                  className="rounded-lg border bg-card text-card-foreground p-4 shadow-sm transition-shadow"
                 >
                   <div className="flex justify-between items-start mb-3">
                     <div className="text-xs text-muted-foreground font-medium">
                       Prompt {history.promptNumber}{history.promptLetter}
+                      {typeof history.year === "number" && <> &middot; Year {history.year}</>}
                     </div>
-                    <div className="text-xs bg-muted p-1 rounded text-muted-foreground">
-                      <span className="text-orange-500 font-medium">D10: {history.diceRoll.d10}</span> - 
-                      <span className="text-blue-500 font-medium"> D6: {history.diceRoll.d6}</span> = 
-                      <span className="font-bold"> {history.diceRoll.d10 - history.diceRoll.d6}</span>
-                    </div>
+                    {history.diceRoll ? (
+                      <div className="text-xs bg-muted p-1 rounded text-muted-foreground">
+                        <span className="text-orange-500 font-medium">D10: {history.diceRoll.d10}</span> - 
+                        <span className="text-blue-500 font-medium"> D6: {history.diceRoll.d6}</span> = 
+                        <span className="font-bold"> {history.diceRoll.d10 - history.diceRoll.d6}</span>
+                        {history.diceRoll.mode === "manual" && (
+                          <span className="ml-1 italic">(manual)</span>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="text-xs bg-muted p-1 rounded text-muted-foreground flex items-center">
+                        <BookOpen className="h-3 w-3 mr-1" />
+                        Consulted the diary
+                      </div>
+                    )}
                   </div>
                   
                   {/* Show the prompt content if available */}
@@ -456,25 +758,67 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
                     </div>
                   )}
                   
-                  <div className="bg-muted/20 p-3 rounded-md whitespace-pre-wrap text-base relative">
-                    {history.response}
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="absolute top-2 right-2 opacity-50 hover:opacity-100"
-                      onClick={() => {
-                        // Open memory selection dialog with this experience
-                        setMemoryDialog({
-                          isOpen: true,
-                          experience: history.response,
-                          selectedMemoryId: null
-                        });
-                      }}
-                    >
-                      <SaveAll className="h-4 w-4 mr-1" />
-                      Save to Memory
-                    </Button>
-                  </div>
+                  {editingResponse.id === history.id ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={editingResponse.text}
+                        onChange={(e) => setEditingResponse(prev => ({ ...prev, text: e.target.value }))}
+                        className="min-h-[100px] text-base"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditingResponse({ id: null, text: "", isSaving: false })}
+                          disabled={editingResponse.isSaving}
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={saveEditedResponse}
+                          disabled={editingResponse.isSaving || !editingResponse.text.trim()}
+                        >
+                          {editingResponse.isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="bg-muted/20 p-3 rounded-md whitespace-pre-wrap text-base relative">
+                      {history.response}
+                      <div className="absolute top-2 right-2 flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="opacity-50 hover:opacity-100"
+                          onClick={() => setEditingResponse({ id: history.id, text: history.response, isSaving: false })}
+                        >
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        {history.kind !== "diary" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="opacity-50 hover:opacity-100"
+                            onClick={() => {
+                              // Open memory selection dialog with this experience
+                              setMemoryDialog({
+                                isOpen: true,
+                                experience: history.response,
+                                source: history,
+                                selectedMemoryId: null
+                              });
+                            }}
+                          >
+                            <SaveAll className="h-4 w-4 mr-1" />
+                            Save to Memory
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -482,6 +826,16 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
         )}
       </CardContent>
 
+      <AdvanceTimeDialog character={character} open={timeDialogOpen} onOpenChange={setTimeDialogOpen} />
+
+      <MortalAgingDialog character={character} mortals={agingMortals} onClose={() => setAgingMortals([])} />
+
+      <MemoryDecisionDialog
+        character={character}
+        pendingEntry={promptHistory?.find(h => h.memoryPending) || null}
+        onResolve={resolveMemoryDecision}
+      />
+
       {/* Memory Selection Dialog */}
       <Dialog
         open={memoryDialog.isOpen}
@@ -506,28 +860,21 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
               }
               className="space-y-3"
             >
-              {Array.isArray(character.memories) && 
-                character.memories
-                  .filter(memory => !memory.strikedOut && !memory.inDiary && 
-                           (!memory.experiences || memory.experiences.length < 3))
-                  .map(memory => (
-                    <div key={memory.id} className="flex items-center space-x-2 border p-3 rounded-md">
-                      <RadioGroupItem id={memory.id} value={memory.id} />
-                      <Label htmlFor={memory.id} className="flex-1">
-                        <div>
-                          <div className="font-medium">{memory.title}</div>
-                          <div className="text-xs text-muted-foreground">
-                            {memory.experiences?.length || 0}/3 experiences
-                          </div>
-                        </div>
-                      </Label>
+              {memoriesWithRoom(character.memories).map(memory => (
+                <div key={memory.id} className="flex items-center space-x-2 border p-3 rounded-md">
+                  <RadioGroupItem id={memory.id} value={memory.id} />
+                  <Label htmlFor={memory.id} className="flex-1">
+                    <div>
+                      <div className="font-medium">{memory.title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {memory.experiences?.length || 0}/{MAX_EXPERIENCES_PER_MEMORY} experiences
+                      </div>
                     </div>
-                  ))
-              }
+                  </Label>
+                </div>
+              ))}
               
-              {(!Array.isArray(character.memories) || 
-                character.memories.filter(memory => !memory.strikedOut && !memory.inDiary && 
-                                         (!memory.experiences || memory.experiences.length < 3)).length === 0) && (
+              {memoriesWithRoom(character.memories).length === 0 && (
                 <div className="text-center p-3 text-muted-foreground">
                   No available memories. Create a new memory or make space in an existing one.
                 </div>
@@ -538,7 +885,7 @@ export function PromptSystem({ character, onUpdate }: PromptSystemProps) {
           <DialogFooter>
             <Button 
               variant="outline" 
-              onClick={() => setMemoryDialog({ isOpen: false, experience: null, selectedMemoryId: null })}
+              onClick={() => setMemoryDialog({ isOpen: false, experience: null, source: null, selectedMemoryId: null })}
             >
               Cancel
             </Button>
@@ -0,0 +1,31 @@
+import type { QueryClient } from "@tanstack/react-query";
+import type { Character } from "@db/schema";
+
+// Calls one of the character sheet routes under /api/character/:id and puts
+// the character it returns into the cache, so every view shows the saved sheet
+export async function characterRequest(
+  queryClient: QueryClient,
+  characterId: number,
+  method: string,
+  path: string,
+  body?: object
+): Promise<Character> {
+  const res = await fetch(`/api/character/${characterId}/${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-cache"
+    },
+    body: JSON.stringify(body || {}),
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => null);
+    throw new Error(errorData?.error || "Failed to update character");
+  }
+
+  const updatedCharacter: Character = await res.json();
+  queryClient.setQueryData(["/api/character", String(characterId)], updatedCharacter);
+  return updatedCharacter;
+}
@@ -0,0 +1,378 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Markdown } from "@/components/markdown";
+import { useUser } from "@/hooks/use-user";
+import { useToast } from "@/hooks/use-toast";
+import type { Prompt } from "@db/schema";
+import { parsePromptActions } from "@db/prompt-actions";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { useLocation } from "wouter";
+
+const LETTERS = ["a", "b", "c"] as const;
+
+// Variant being created or edited; id is unset for a new one
+type PromptForm = {
+  id?: number;
+  promptNumber: string;
+  promptLetter: string;
+  content: string;
+  isSaving: boolean;
+};
+
+export default function AdminPromptsPage() {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState("");
+  const [promptForm, setPromptForm] = useState<PromptForm | null>(null);
+  const [promptToDelete, setPromptToDelete] = useState<Prompt | null>(null);
+
+  const { data: catalog, isLoading, error } = useQuery<Prompt[]>({
+    queryKey: ["/api/admin/prompts"],
+    queryFn: async () => {
+      const response = await fetch("/api/admin/prompts", {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+          'Pragma': 'no-cache'
+        }
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to load the prompt catalog");
+      }
+
+      return response.json();
+    },
+    enabled: !!user?.isAdmin,
+    retry: false,
+  });
+
+  const promptRequest = async (method: string, path: string, body?: object) => {
+    const res = await fetch(`/api/admin/prompts${path}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache"
+      },
+      body: JSON.stringify(body || {}),
+      credentials: "include",
+    });
+
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => null);
+      throw new Error(errorData?.error || "Failed to update the prompt catalog");
+    }
+
+    await queryClient.invalidateQueries({ queryKey: ["/api/admin/prompts"] });
+    // Players see the new text the next time their prompt loads
+    await queryClient.invalidateQueries({ queryKey: ["/api/prompts"] });
+    return res.json();
+  };
+
+  const handleSavePrompt = async () => {
+    if (!promptForm) return;
+
+    setPromptForm(prev => prev && { ...prev, isSaving: true });
+    try {
+      const body = {
+        promptNumber: parseInt(promptForm.promptNumber),
+        promptLetter: promptForm.promptLetter,
+        content: promptForm.content,
+      };
+      const prompt: Prompt = promptForm.id
+        ? await promptRequest("PATCH", `/${promptForm.id}`, body)
+        : await promptRequest("POST", "", body);
+
+      toast({
+        title: promptForm.id ? "Prompt Updated" : "Prompt Added",
+        description: `Prompt ${prompt.promptNumber}${prompt.promptLetter} has been saved.`,
+      });
+      setPromptForm(null);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+      setPromptForm(prev => prev && { ...prev, isSaving: false });
+    }
+  };
+
+  const handleDeletePrompt = async () => {
+    if (!promptToDelete) return;
+
+    try {
+      await promptRequest("DELETE", `/${promptToDelete.id}`);
+      toast({
+        title: "Prompt Deleted",
+        description: `Prompt ${promptToDelete.promptNumber}${promptToDelete.promptLetter} is no longer in the catalog.`,
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    } finally {
+      setPromptToDelete(null);
+    }
+  };
+
+  if (!user?.isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen space-y-4">
+        <h1 className="text-2xl font-bold text-destructive">Admins Only</h1>
+        <p className="text-muted-foreground text-center max-w-md">
+          Only admins can edit the prompt catalog.
+        </p>
+        <Button onClick={() => setLocation("/")}>Return Home</Button>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  if (error || !catalog) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen space-y-4">
+        <h1 className="text-2xl font-bold text-destructive">Error Loading Prompts</h1>
+        <p className="text-muted-foreground text-center max-w-md">
+          {error instanceof Error ? error.message : "The prompt catalog could not be loaded."}
+        </p>
+        <Button onClick={() => setLocation("/")}>Return Home</Button>
+      </div>
+    );
+  }
+
+  // Every number up to the highest in the catalog, so gaps show up as missing variants
+  const maxNumber = catalog.reduce((max, p) => Math.max(max, p.promptNumber), 0);
+  const numbers = Array.from({ length: maxNumber }, (_, i) => i + 1)
+    .filter(n => !filter.trim() || String(n).startsWith(filter.trim()));
+  const missingCount = maxNumber * LETTERS.length - catalog.filter(p => p.promptNumber <= maxNumber).length;
+
+  const previewActions = promptForm ? parsePromptActions(promptForm.content) : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b p-4">
+        <div className="max-w-4xl mx-auto flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold">Prompt Catalog</h1>
+            <p className="text-sm text-muted-foreground">
+              {catalog.length} prompts{missingCount > 0 && `, ${missingCount} variants missing`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setPromptForm({ promptNumber: String(maxNumber + 1), promptLetter: "a", content: "", isSaving: false })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New Prompt
+            </Button>
+            <Button variant="outline" onClick={() => setLocation("/")}>
+              Back Home
+            </Button>
+          </div>
+        </div>
+      </header>
+      <main className="max-w-4xl mx-auto p-4 space-y-6">
+        <Input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Jump to prompt number..."
+          className="max-w-xs"
+        />
+
+        {numbers.map(promptNumber => (
+          <section key={promptNumber} className="space-y-2">
+            <h2 className="text-lg font-semibold">Prompt {promptNumber}</h2>
+            {LETTERS.map(letter => {
+              const prompt = catalog.find(p => p.promptNumber === promptNumber && p.promptLetter === letter);
+              if (!prompt) {
+                return (
+                  <div key={letter} className="flex items-center justify-between border border-dashed rounded-md p-3">
+                    <span className="text-sm text-muted-foreground">{promptNumber}{letter} is missing</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPromptForm({ promptNumber: String(promptNumber), promptLetter: letter, content: "", isSaving: false })}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add {promptNumber}{letter}
+                    </Button>
+                  </div>
+                );
+              }
+
+              return (
+                <Card key={letter}>
+                  <CardContent className="p-4 flex justify-between items-start gap-4">
+                    <div className="space-y-2">
+                      <Badge variant="outline">{promptNumber}{letter}</Badge>
+                      <Markdown text={prompt.content} className="text-sm" />
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setPromptForm({
+                          id: prompt.id,
+                          promptNumber: String(prompt.promptNumber),
+                          promptLetter: prompt.promptLetter,
+                          content: prompt.content,
+                          isSaving: false,
+                        })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => setPromptToDelete(prompt)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </section>
+        ))}
+      </main>
+
+      <Dialog open={!!promptForm} onOpenChange={(open) => !open && setPromptForm(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{promptForm?.id ? "Edit Prompt" : "Add a Prompt"}</DialogTitle>
+            <DialogDescription>
+              Prompt text may use **bold**, *italic*, line breaks and "- " lists.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="prompt-number">Number</Label>
+                <Input
+                  id="prompt-number"
+                  type="number"
+                  min={1}
+                  className="w-28"
+                  value={promptForm?.promptNumber || ""}
+                  onChange={(e) => setPromptForm(prev => prev && { ...prev, promptNumber: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Variant</Label>
+                <Select
+                  value={promptForm?.promptLetter || "a"}
+                  onValueChange={(value) => setPromptForm(prev => prev && { ...prev, promptLetter: value })}
+                >
+                  <SelectTrigger className="w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LETTERS.map(letter => <SelectItem key={letter} value={letter}>{letter}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Tabs defaultValue="write">
+              <TabsList>
+                <TabsTrigger value="write">Write</TabsTrigger>
+                <TabsTrigger value="preview">Preview</TabsTrigger>
+              </TabsList>
+              <TabsContent value="write">
+                <Textarea
+                  value={promptForm?.content || ""}
+                  onChange={(e) => setPromptForm(prev => prev && { ...prev, content: e.target.value })}
+                  placeholder="In your blood hunger you destroy someone close to you. Kill a mortal Character..."
+                  className="min-h-[200px]"
+                />
+              </TabsContent>
+              <TabsContent value="preview">
+                <div className="min-h-[200px] border rounded-md p-4">
+                  {promptForm?.content.trim()
+                    ? <Markdown text={promptForm.content} className="text-orange-500 dark:text-orange-400" />
+                    : <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>}
+                </div>
+              </TabsContent>
+            </Tabs>
+            {previewActions.length > 0 && (
+              <div className="space-y-1">
+                <Label>Players will be asked to</Label>
+                <div className="flex flex-wrap gap-1">
+                  {previewActions.map((action, i) => <Badge key={i} variant="secondary">{action.text}</Badge>)}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={handleSavePrompt}
+              disabled={!promptForm?.content.trim() || isNaN(parseInt(promptForm?.promptNumber || "")) || promptForm?.isSaving}
+            >
+              {promptForm?.isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!promptToDelete} onOpenChange={(open) => !open && setPromptToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete prompt {promptToDelete?.promptNumber}{promptToDelete?.promptLetter}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Prompts that have already been answered cannot be deleted; fix their text instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeletePrompt}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
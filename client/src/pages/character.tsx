@@ -1,12 +1,23 @@
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { GameInterface } from "@/components/game-interface";
 import { PromptSystem } from "@/components/prompt-system";
+import { EventTimeline } from "@/components/event-timeline";
 import { Button } from "@/components/ui/button";
 import { useUser } from "@/hooks/use-user";
 import { useToast } from "@/hooks/use-toast";
 import type { Character } from "@db/schema";
 import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useLocation, useParams } from "wouter";
 
 export default function CharacterPage() {
@@ -16,6 +27,11 @@ export default function CharacterPage() {
   const params = useParams();
   const characterId = params.id;
   const queryClient = useQueryClient();
+  // Set when a save was rejected because the character changed in another window
+  const [conflict, setConflict] = useState<{
+    updates: Partial<Character>;
+    serverCharacter: Character;
+  } | null>(null);
 
   // This effect runs when characterId changes to clear any cached prompt history
   // from a previous character
@@ -76,18 +92,32 @@ export default function CharacterPage() {
       // Log what we're updating for debugging
       console.log("Updating character with:", updates);
       
+      // Send the version we last saw so the server can refuse to overwrite newer changes
+      const cached = queryClient.getQueryData<Character>(["/api/character", characterId]);
+      
       const res = await fetch(`/api/character/${characterId}`, {
         method: "PATCH",
         headers: { 
           "Content-Type": "application/json",
-          "Cache-Control": "no-cache"
+          "Cache-Control": "no-cache",
+          ...(cached?.updatedAt && { "If-Match": new Date(cached.updatedAt).toISOString() })
         },
         body: JSON.stringify(updates),
         credentials: "include",
       });
 
+      if (res.status === 409) {
+        const data = await res.json();
+        console.warn("Character changed in another window, asking how to resolve");
+        setConflict({ updates, serverCharacter: data.character });
+        return;
+      }
+
       if (!res.ok) {
-        throw new Error(await res.text());
+        const errorData = await res.json().catch(() => null);
+        // Validation errors list each rejected field
+        const fieldErrors = errorData?.fields?.map((f: { field: string; message: string }) => `${f.field}: ${f.message}`);
+        throw new Error(fieldErrors?.length ? `${errorData.error} (${fieldErrors.join("; ")})` : errorData?.error || "Failed to update character");
       }
 
       // Get the updated character data
@@ -108,6 +138,22 @@ export default function CharacterPage() {
     }
   };
 
+  // Discard the rejected change and show what the other window saved
+  const handleReloadFromServer = () => {
+    if (!conflict) return;
+    queryClient.setQueryData(["/api/character", characterId], conflict.serverCharacter);
+    setConflict(null);
+  };
+
+  // Re-apply the rejected change on top of the server copy
+  const handleKeepMyChanges = async () => {
+    if (!conflict) return;
+    const { updates, serverCharacter } = conflict;
+    queryClient.setQueryData(["/api/character", characterId], serverCharacter);
+    setConflict(null);
+    await handleUpdate(updates);
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -143,17 +189,42 @@ export default function CharacterPage() {
       <header className="border-b p-4">
         <div className="max-w-7xl mx-auto flex justify-between items-center">
           <h1 className="text-2xl font-bold">Thousand Year Old Vampire</h1>
-          <Button variant="outline" onClick={() => setLocation("/")}>
-            Back to Characters
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setLocation(`/character/${characterId}/diary`)}>
+              Read Diary
+            </Button>
+            <Button variant="outline" onClick={() => setLocation(`/character/${characterId}/chronicle`)}>
+              Chronicle
+            </Button>
+            <Button variant="outline" onClick={() => setLocation("/")}>
+              Back to Characters
+            </Button>
+          </div>
         </div>
       </header>
-      <main className="max-w-7xl mx-auto p-4">
+      <main className="max-w-7xl mx-auto p-4 space-y-4">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          <GameInterface character={character} onSave={handleUpdate} />
+          <GameInterface character={character} />
           <PromptSystem character={character} onUpdate={handleUpdate} />
         </div>
+        <EventTimeline character={character} />
       </main>
+
+      <AlertDialog open={!!conflict}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Character Changed Elsewhere</AlertDialogTitle>
+            <AlertDialogDescription>
+              {character.name} was saved from another window since this page loaded. Reload to see
+              those changes, or keep yours and replace the {conflict ? Object.keys(conflict.updates).join(", ") : ""} saved there.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={handleReloadFromServer}>Reload</AlertDialogCancel>
+            <AlertDialogAction onClick={handleKeepMyChanges}>Keep My Changes</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,346 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { eventIcon, LOSS_EVENTS } from "@/components/event-timeline";
+import { useUser } from "@/hooks/use-user";
+import { useToast } from "@/hooks/use-toast";
+import type { CharacterEvent, ChronicleItem, ChronicleSection, Era } from "@db/schema";
+import { cn } from "@/lib/utils";
+import { BookOpen, Hourglass, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { useLocation, useParams } from "wouter";
+
+type Chronicle = {
+  character: { id: number; name: string };
+  eras: Era[];
+  sections: ChronicleSection[];
+};
+
+// Era being created or edited; startsAt is left unset for an era that begins now
+type EraForm = {
+  id?: number;
+  name: string;
+  description: string;
+  startsAt?: string;
+  isSaving: boolean;
+};
+
+function EventLine({ event }: { event: CharacterEvent }) {
+  const Icon = eventIcon(event.type);
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      <Icon className={cn("h-4 w-4 shrink-0", LOSS_EVENTS.includes(event.type) && "text-destructive")} />
+      <span>{event.summary}</span>
+    </div>
+  );
+}
+
+export default function ChroniclePage() {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const params = useParams();
+  const characterId = params.id;
+  const queryClient = useQueryClient();
+  const [eraForm, setEraForm] = useState<EraForm | null>(null);
+  const [eraToDelete, setEraToDelete] = useState<Era | null>(null);
+
+  const { data: chronicle, isLoading, error } = useQuery<Chronicle>({
+    queryKey: ["/api/chronicle", characterId],
+    queryFn: async () => {
+      const response = await fetch(`/api/character/${characterId}/chronicle`, {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+          'Pragma': 'no-cache'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json();
+    },
+    enabled: !!characterId && !!user,
+    retry: false,
+  });
+
+  const eraRequest = async (method: string, path: string, body?: object) => {
+    const res = await fetch(`/api/character/${characterId}/${path}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-cache"
+      },
+      body: JSON.stringify(body || {}),
+      credentials: "include",
+    });
+
+    if (!res.ok) {
+      const errorData = await res.json().catch(() => null);
+      throw new Error(errorData?.error || "Failed to update era");
+    }
+
+    await queryClient.invalidateQueries({ queryKey: ["/api/chronicle", characterId] });
+    await queryClient.invalidateQueries({ queryKey: ["/api/eras"] });
+    return res.json();
+  };
+
+  const handleSaveEra = async () => {
+    if (!eraForm) return;
+
+    setEraForm(prev => prev && { ...prev, isSaving: true });
+    try {
+      const body = {
+        name: eraForm.name,
+        description: eraForm.description,
+        ...(eraForm.startsAt && { startsAt: eraForm.startsAt }),
+      };
+      const era: Era = eraForm.id
+        ? await eraRequest("PATCH", `eras/${eraForm.id}`, body)
+        : await eraRequest("POST", "eras", body);
+
+      toast({
+        title: eraForm.id ? "Era Updated" : "Era Begun",
+        description: `"${era.name}" is part of the chronicle.`,
+      });
+      setEraForm(null);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+      setEraForm(prev => prev && { ...prev, isSaving: false });
+    }
+  };
+
+  const handleDeleteEra = async () => {
+    if (!eraToDelete) return;
+
+    try {
+      await eraRequest("DELETE", `eras/${eraToDelete.id}`);
+      toast({
+        title: "Era Removed",
+        description: `What happened in "${eraToDelete.name}" now belongs to the era before it.`,
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    } finally {
+      setEraToDelete(null);
+    }
+  };
+
+  const renderItem = (item: ChronicleItem) => {
+    if (item.type === "event") {
+      return (
+        <li key={`event-${item.event.id}`} className="pl-4">
+          <EventLine event={item.event} />
+        </li>
+      );
+    }
+
+    const { entry, events } = item;
+    return (
+      <li key={`entry-${entry.id}`}>
+        <Card>
+          <CardContent className="p-4 space-y-2">
+            <div className="flex justify-between items-start gap-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">Prompt {entry.promptNumber}{entry.promptLetter}</Badge>
+                {entry.year !== null && <Badge variant="secondary">Year {entry.year}</Badge>}
+                {entry.kind === "diary" && (
+                  <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <BookOpen className="h-4 w-4" />
+                    Consulted the diary
+                  </span>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setEraForm({
+                  name: "",
+                  description: "",
+                  startsAt: new Date(entry.createdAt).toISOString(),
+                  isSaving: false,
+                })}
+              >
+                <Hourglass className="h-4 w-4 mr-1" />
+                Begin Era Here
+              </Button>
+            </div>
+            {entry.kind !== "diary" && entry.promptContent && (
+              <p className="text-sm text-muted-foreground italic">{entry.promptContent}</p>
+            )}
+            <p className="whitespace-pre-wrap">{entry.response}</p>
+            {events.length > 0 && (
+              <div className="space-y-1 pt-2 border-t">
+                {events.map(event => <EventLine key={event.id} event={event} />)}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </li>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  if (error || !chronicle) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen space-y-4">
+        <h1 className="text-2xl font-bold text-destructive">Error Loading Chronicle</h1>
+        <p className="text-muted-foreground text-center max-w-md">
+          {error instanceof Error ? error.message : "The requested character could not be found."}
+        </p>
+        <Button onClick={() => setLocation("/")}>Return Home</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b p-4">
+        <div className="max-w-4xl mx-auto flex justify-between items-center">
+          <h1 className="text-2xl font-bold">{chronicle.character.name}'s Chronicle</h1>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setEraForm({ name: "", description: "", isSaving: false })}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Era
+            </Button>
+            <Button variant="outline" onClick={() => setLocation(`/character/${characterId}`)}>
+              Back to Game
+            </Button>
+          </div>
+        </div>
+      </header>
+      <main className="max-w-4xl mx-auto p-4 space-y-8">
+        {chronicle.sections.length === 0 && (
+          <p className="text-muted-foreground text-center py-8">
+            {chronicle.character.name}'s story has not begun yet.
+          </p>
+        )}
+
+        {chronicle.sections.map(section => (
+          <section key={section.era?.id ?? "before"} className="space-y-4">
+            <div className="flex justify-between items-start border-b pb-2">
+              <div>
+                <h2 className="text-xl font-semibold">{section.era ? section.era.name : "Before the First Era"}</h2>
+                {section.era?.description && (
+                  <p className="text-muted-foreground">{section.era.description}</p>
+                )}
+              </div>
+              {section.era && (
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => section.era && setEraForm({
+                      id: section.era.id,
+                      name: section.era.name,
+                      description: section.era.description || "",
+                      isSaving: false,
+                    })}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setEraToDelete(section.era)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+            {section.items.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing has happened in this era yet.</p>
+            ) : (
+              <ol className="space-y-3">
+                {section.items.map(renderItem)}
+              </ol>
+            )}
+          </section>
+        ))}
+      </main>
+
+      <Dialog open={!!eraForm} onOpenChange={(open) => !open && setEraForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{eraForm?.id ? "Edit Era" : "Begin an Era"}</DialogTitle>
+            <DialogDescription>
+              {eraForm?.id
+                ? "Rename the era or change how it is described."
+                : eraForm?.startsAt
+                  ? "The era begins with this response and lasts until the next era."
+                  : "The era begins now and lasts until the next era."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Input
+              value={eraForm?.name || ""}
+              onChange={(e) => setEraForm(prev => prev && { ...prev, name: e.target.value })}
+              placeholder="The Florentine Years, The Nineteenth Century..."
+            />
+            <Textarea
+              value={eraForm?.description || ""}
+              onChange={(e) => setEraForm(prev => prev && { ...prev, description: e.target.value })}
+              placeholder="What defines this era? (optional)"
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSaveEra} disabled={!eraForm?.name.trim() || eraForm?.isSaving}>
+              {eraForm?.isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!eraToDelete} onOpenChange={(open) => !open && setEraToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove "{eraToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Nothing in the chronicle is lost; what happened in this era will be shown under the era before it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteEra}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -231,9 +231,9 @@ export default function CreateCharacter() {
                   setCharacter(prev => ({
                     ...prev,
                     relationships: [
-                      { name: inputs.mortal1 },
-                      { name: inputs.mortal2 },
-                      { name: inputs.mortal3 },
+                      { name: inputs.mortal1, mortality: "mortal" },
+                      { name: inputs.mortal2, mortality: "mortal" },
+                      { name: inputs.mortal3, mortality: "mortal" },
                     ],
                   }));
                   setStep("traits");
@@ -559,7 +559,7 @@ export default function CreateCharacter() {
                     ...prev,
                     relationships: [
                       ...(prev.relationships || []),
-                      { name: inputs.immortal },
+                      { name: inputs.immortal, mortality: "immortal" },
                     ],
                     marks: [{ name: inputs.mark }],
                     memories: currentMemories,
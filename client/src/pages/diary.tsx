@@ -0,0 +1,325 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useUser } from "@/hooks/use-user";
+import { useToast } from "@/hooks/use-toast";
+import type { Character, Era, Memory } from "@db/schema";
+import { eraAt, hasActiveDiary, MAX_DIARY_MEMORIES } from "@db/rules";
+import { cn } from "@/lib/utils";
+import { BookOpen, Loader2, Search } from "lucide-react";
+import { useLocation, useParams } from "wouter";
+
+// Every search term has to appear somewhere in the memory title or its experiences
+function matchesSearch(memory: Memory, search: string) {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const text = [memory.title, ...(memory.experiences || []).map(exp => exp.text)]
+    .join(" ")
+    .toLowerCase();
+  return terms.every(term => text.includes(term));
+}
+
+function matchesPrompt(memory: Memory, promptFilter: string) {
+  if (promptFilter === "all") return true;
+  return (memory.experiences || []).some(exp => String(exp.promptNumber) === promptFilter);
+}
+
+// A memory belongs to every era one of its experiences happened in
+function matchesEra(memory: Memory, eraFilter: string, eras: Era[]) {
+  if (eraFilter === "all") return true;
+  return (memory.experiences || []).some(exp => String(eraAt(eras, exp.createdAt)?.id) === eraFilter);
+}
+
+export default function DiaryPage() {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const params = useParams();
+  const characterId = params.id;
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [promptFilter, setPromptFilter] = useState("all");
+  const [eraFilter, setEraFilter] = useState("all");
+  const [consultDialog, setConsultDialog] = useState<{ memory: Memory | null; note: string; isSaving: boolean }>({
+    memory: null,
+    note: "",
+    isSaving: false,
+  });
+
+  const { data: character, isLoading, error } = useQuery<Character>({
+    queryKey: ["/api/character", characterId],
+    queryFn: async () => {
+      const response = await fetch(`/api/character/${characterId}?t=${Date.now()}`, {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+          'Pragma': 'no-cache'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json();
+    },
+    enabled: !!characterId && !!user,
+    retry: false,
+  });
+
+  const { data: eras = [] } = useQuery<Era[]>({
+    queryKey: ["/api/eras", characterId],
+    queryFn: async () => {
+      const response = await fetch(`/api/character/${characterId}/eras`, {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+          'Pragma': 'no-cache'
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      return response.json();
+    },
+    enabled: !!characterId && !!user,
+    retry: false,
+  });
+
+  const diaryMemories = character?.diary?.memories || [];
+
+  // Prompt numbers the diary's experiences were recorded at, for the filter
+  const promptNumbers = useMemo(() => {
+    const numbers = new Set<number>();
+    diaryMemories.forEach(memory =>
+      (memory.experiences || []).forEach(exp => {
+        if (exp.promptNumber !== undefined) numbers.add(exp.promptNumber);
+      })
+    );
+    return Array.from(numbers).sort((a, b) => a - b);
+  }, [diaryMemories]);
+
+  const filteredMemories = diaryMemories.filter(memory =>
+    matchesSearch(memory, search) && matchesPrompt(memory, promptFilter) && matchesEra(memory, eraFilter, eras)
+  );
+
+  const handleConsult = async () => {
+    if (!consultDialog.memory) return;
+
+    setConsultDialog(prev => ({ ...prev, isSaving: true }));
+    try {
+      const res = await fetch(`/api/character/${characterId}/diary/consult`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": "no-cache"
+        },
+        body: JSON.stringify({ memoryId: consultDialog.memory.id, note: consultDialog.note }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to consult the diary");
+      }
+
+      const data = await res.json();
+      queryClient.setQueryData(["/api/character", characterId], data.character);
+      await queryClient.invalidateQueries({ queryKey: ["/api/prompt-history"] });
+
+      toast({
+        title: "Diary Consulted",
+        description: `Recorded at prompt ${data.entry.promptNumber}${data.entry.promptLetter}.`,
+      });
+      setConsultDialog({ memory: null, note: "", isSaving: false });
+    } catch (error: any) {
+      console.error("Error consulting diary:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+      setConsultDialog(prev => ({ ...prev, isSaving: false }));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  if (error || !character) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen space-y-4">
+        <h1 className="text-2xl font-bold text-destructive">Error Loading Diary</h1>
+        <p className="text-muted-foreground text-center max-w-md">
+          {error instanceof Error ? error.message : "The requested character could not be found."}
+        </p>
+        <Button onClick={() => setLocation("/")}>Return Home</Button>
+      </div>
+    );
+  }
+
+  const diary = character.diary;
+  const canConsult = hasActiveDiary(diary);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b p-4">
+        <div className="max-w-4xl mx-auto flex justify-between items-center">
+          <h1 className="text-2xl font-bold">{character.name}'s Diary</h1>
+          <Button variant="outline" onClick={() => setLocation(`/character/${characterId}`)}>
+            Back to Game
+          </Button>
+        </div>
+      </header>
+      <main className="max-w-4xl mx-auto p-4 space-y-4">
+        {!diary ? (
+          <p className="text-muted-foreground text-center py-8">
+            {character.name} has not started a diary yet.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className={cn("text-xl font-semibold", diary.lost && "line-through")}>{diary.name}</h2>
+                <div className="text-sm text-muted-foreground">
+                  {diary.memories.length}/{MAX_DIARY_MEMORIES} memories
+                </div>
+              </div>
+              {diary.lost && <Badge variant="destructive">Lost</Badge>}
+            </div>
+
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search the diary..."
+                  className="pl-8"
+                />
+              </div>
+              <Select value={promptFilter} onValueChange={setPromptFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="All prompts" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All prompts</SelectItem>
+                  {promptNumbers.map(number => (
+                    <SelectItem key={number} value={String(number)}>Prompt {number}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {eras.length > 0 && (
+                <Select value={eraFilter} onValueChange={setEraFilter}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="All eras" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All eras</SelectItem>
+                    {eras.map(era => (
+                      <SelectItem key={era.id} value={String(era.id)}>{era.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {filteredMemories.length === 0 && (
+              <p className="text-muted-foreground text-center py-4">No diary entries match.</p>
+            )}
+
+            {filteredMemories.map(memory => (
+              <Card key={memory.id} className={cn(memory.strikedOut && "opacity-50")}>
+                <CardContent className="p-4">
+                  <div className="flex justify-between items-start mb-2">
+                    <h3 className="text-lg font-semibold">{memory.title}</h3>
+                    {canConsult && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setConsultDialog({ memory, note: "", isSaving: false })}
+                      >
+                        <BookOpen className="h-4 w-4 mr-1" />
+                        Consult
+                      </Button>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    {(memory.experiences || []).map((exp, i) => (
+                      <div key={i} className="pl-3 border-l-2 border-primary/30">
+                        <p>{exp.text}</p>
+                        {exp.promptNumber !== undefined && (
+                          <span className="text-xs text-muted-foreground">
+                            Prompt {exp.promptNumber}{exp.promptLetter}
+                          </span>
+                        )}
+                        {exp.year !== undefined && (
+                          <span className="text-xs text-muted-foreground ml-2">Year {exp.year}</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </>
+        )}
+      </main>
+
+      <Dialog
+        open={!!consultDialog.memory}
+        onOpenChange={(open) => {
+          if (!open) setConsultDialog({ memory: null, note: "", isSaving: false });
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Consult the Diary</DialogTitle>
+            <DialogDescription>
+              Reading "{consultDialog.memory?.title}" will be recorded in your prompt history at
+              prompt {character.currentPrompt}{character.currentLetter}.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={consultDialog.note}
+            onChange={(e) => setConsultDialog(prev => ({ ...prev, note: e.target.value }))}
+            placeholder="What does your vampire take from it? (optional)"
+          />
+          <DialogFooter>
+            <Button onClick={handleConsult} disabled={consultDialog.isSaving}>
+              {consultDialog.isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Consult
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
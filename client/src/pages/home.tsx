@@ -141,7 +141,14 @@ export default function Home() {
       <header className="border-b p-4">
         <div className="max-w-7xl mx-auto flex justify-between items-center">
           <h1 className="text-2xl font-bold">Thousand Year Old Vampire</h1>
-          <Button onClick={handleLogout}>Logout</Button>
+          <div className="flex gap-2">
+            {user?.isAdmin && (
+              <Button variant="outline" onClick={() => setLocation("/admin/prompts")}>
+                Prompt Catalog
+              </Button>
+            )}
+            <Button onClick={handleLogout}>Logout</Button>
+          </div>
         </div>
       </header>
       <main className="max-w-7xl mx-auto p-4">
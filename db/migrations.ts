@@ -1,6 +1,20 @@
 import { db } from './index';
-import { prompts, promptHistory, characters } from './schema';
+import { nanoid } from 'nanoid';
+import {
+  prompts,
+  promptHistory,
+  characters,
+  memories,
+  experiences,
+  traits,
+  diaries,
+  type Diary,
+  type Memory,
+  type Trait,
+  type TraitType,
+} from './schema';
 import { eq, sql } from 'drizzle-orm';
+import { parsePromptActions } from './prompt-actions';
 
 // This migration script will be used to add the new columns to the database
 // and populate them with default values
@@ -12,15 +26,63 @@ async function runMigrations() {
     // 1. First, run SQL migrations for adding columns
     await addColumns();
     
-    // 2. Update existing prompts with default letter 'a'
+    // 2. Add the dice mode setting and the dice roll log
+    await addDiceRolls();
+    
+    // 3. Track what each prompt turn changed so it can be undone
+    await addUndoState();
+    
+    // 4. Track responses waiting on a forced memory decision
+    await addMemoryPending();
+    
+    // 5. Allow history entries that record consulting the diary
+    await addDiaryConsultations();
+    
+    // 6. Create the memories, experiences, traits and diaries tables
+    await createSheetTables();
+    
+    // 7. Create the character event log
+    await addCharacterEvents();
+    
+    // 8. Create the eras the chronicle is grouped into
+    await addEras();
+    
+    // 9. Track the in-game year on characters, history entries and experiences
+    await addInGameYears();
+    
+    // 10. Track which Characters are mortal and when they were introduced
+    await addTraitMortality();
+    
+    // 11. Create the descriptors added to Characters as the story goes on
+    await addTraitDescriptors();
+    
+    // 12. Track which Resources are stationary
+    await addStationaryResources();
+    
+    // 13. Store the instructions read out of each prompt
+    await addPromptActions();
+    
+    // 14. Let some users edit the prompt catalog
+    await addAdminRole();
+    
+    // The backfills below select every column in the schema, so all
+    // column changes have to be in place before they run
+    
+    // 15. Update existing prompts with default letter 'a'
     await updateExistingPrompts();
     
-    // 3. Update prompt history with the prompt number and letter info
+    // 16. Parse the instructions out of every prompt, so parser changes reach existing prompts
+    await updatePromptActions();
+    
+    // 17. Update prompt history with the prompt number and letter info
     await updatePromptHistory();
     
-    // 4. Update characters with default letter and visited prompts
+    // 18. Update characters with default letter and visited prompts
     await updateCharacters();
     
+    // 19. Move the JSON sheet columns on characters into their tables
+    await normalizeCharacterSheets();
+    
     console.log("Database migrations completed successfully!");
   } catch (error) {
     console.error("Migration failed:", error);
@@ -103,6 +165,20 @@ async function updateExistingPrompts() {
   console.log(`Updated ${allPrompts.length} prompts with default letter 'a'`);
 }
 
+async function updatePromptActions() {
+  console.log("Parsing prompt actions...");
+  
+  const allPrompts = await db.select().from(prompts);
+  
+  for (const prompt of allPrompts) {
+    await db.update(prompts)
+      .set({ actions: parsePromptActions(prompt.content) })
+      .where(eq(prompts.id, prompt.id));
+  }
+  
+  console.log(`Parsed actions for ${allPrompts.length} prompts`);
+}
+
 async function updatePromptHistory() {
   console.log("Updating prompt history with prompt number and letter information...");
   
@@ -145,7 +221,8 @@ async function updateCharacters() {
     const visitedPrompts: Array<{promptNumber: number, letters: string[]}> = [];
     
     // Group prompt history by prompt number
-    const historyByPrompt = characterHistory.reduce((acc, history) => {
+    // Diary consultations do not visit a prompt
+    const historyByPrompt = characterHistory.filter(h => h.kind !== "diary").reduce((acc, history) => {
       const promptNum = history.promptNumber;
       if (!acc[promptNum]) {
         acc[promptNum] = [];
@@ -178,5 +255,495 @@ async function updateCharacters() {
   console.log(`Updated ${allCharacters.length} characters`);
 }
 
+async function addDiceRolls() {
+  console.log("Adding dice mode and dice roll log...");
+  
+  await db.execute(sql`
+    DO $$ 
+    BEGIN
+      BEGIN
+        ALTER TABLE characters ADD COLUMN dice_mode TEXT NOT NULL DEFAULT 'server';
+      EXCEPTION
+        WHEN duplicate_column THEN
+          RAISE NOTICE 'Column dice_mode already exists in characters';
+      END;
+    END $$;
+  `);
+  
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS dice_rolls (
+      id SERIAL PRIMARY KEY,
+      character_id INTEGER NOT NULL REFERENCES characters(id),
+      prompt_history_id INTEGER REFERENCES prompt_history(id),
+      d10 INTEGER NOT NULL,
+      d6 INTEGER NOT NULL,
+      mode TEXT NOT NULL,
+      seed TEXT,
+      nonce INTEGER NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+  
+  console.log("Dice roll log ready!");
+}
+
+async function addUndoState() {
+  console.log("Adding undo state to prompt history...");
+  
+  await db.execute(sql`
+    DO $$ 
+    BEGIN
+      BEGIN
+        ALTER TABLE prompt_history ADD COLUMN undo_state JSONB;
+      EXCEPTION
+        WHEN duplicate_column THEN
+          RAISE NOTICE 'Column undo_state already exists in prompt_history';
+      END;
+    END $$;
+  `);
+  
+  console.log("Undo state column added!");
+}
+
+async function addMemoryPending() {
+  console.log("Adding memory pending flag to prompt history...");
+  
+  await db.execute(sql`
+    DO $$ 
+    BEGIN
+      BEGIN
+        ALTER TABLE prompt_history ADD COLUMN memory_pending BOOLEAN NOT NULL DEFAULT FALSE;
+      EXCEPTION
+        WHEN duplicate_column THEN
+          RAISE NOTICE 'Column memory_pending already exists in prompt_history';
+      END;
+    END $$;
+  `);
+  
+  console.log("Memory pending column added!");
+}
+
+async function addDiaryConsultations() {
+  console.log("Adding diary consultations to prompt history...");
+  
+  await db.execute(sql`
+    DO $$ 
+    BEGIN
+      BEGIN
+        ALTER TABLE prompt_history ADD COLUMN kind TEXT NOT NULL DEFAULT 'prompt';
+      EXCEPTION
+        WHEN duplicate_column THEN
+          RAISE NOTICE 'Column kind already exists in prompt_history';
+      END;
+      
+      BEGIN
+        ALTER TABLE prompt_history ADD COLUMN diary_memory_id TEXT;
+      EXCEPTION
+        WHEN duplicate_column THEN
+          RAISE NOTICE 'Column diary_memory_id already exists in prompt_history';
+      END;
+    END $$;
+  `);
+  
+  await db.execute(sql`ALTER TABLE prompt_history ALTER COLUMN dice_roll DROP NOT NULL`);
+  
+  console.log("Diary consultation columns added!");
+}
+
+async function createSheetTables() {
+  console.log("Creating character sheet tables...");
+  
+  await db.execute(sql`
+    DO $$ 
+    BEGIN
+      CREATE TYPE trait_type AS ENUM ('skills', 'resources', 'relationships', 'marks');
+    EXCEPTION
+      WHEN duplicate_object THEN
+        RAISE NOTICE 'Type trait_type already exists';
+    END $$;
+  `);
+  
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS traits (
+      id SERIAL PRIMARY KEY,
+      character_id INTEGER NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+      type trait_type NOT NULL,
+      position INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      checked BOOLEAN NOT NULL DEFAULT FALSE,
+      striked_out BOOLEAN NOT NULL DEFAULT FALSE
+    );
+  `);
+  
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS diaries (
+      id SERIAL PRIMARY KEY,
+      character_id INTEGER NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      resource_name TEXT NOT NULL,
+      lost BOOLEAN NOT NULL DEFAULT FALSE,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+  
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS memories (
+      id TEXT PRIMARY KEY,
+      character_id INTEGER NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+      diary_id INTEGER REFERENCES diaries(id) ON DELETE SET NULL,
+      position INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      in_diary BOOLEAN NOT NULL DEFAULT FALSE,
+      striked_out BOOLEAN NOT NULL DEFAULT FALSE
+    );
+  `);
+  
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS experiences (
+      id SERIAL PRIMARY KEY,
+      memory_id TEXT NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      text TEXT NOT NULL,
+      prompt_history_id INTEGER REFERENCES prompt_history(id) ON DELETE SET NULL,
+      prompt_number INTEGER,
+      prompt_letter TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+  
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS memories_character_id_idx ON memories (character_id)`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS experiences_memory_id_idx ON experiences (memory_id)`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS traits_character_id_idx ON traits (character_id)`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS diaries_character_id_idx ON diaries (character_id)`);
+  
+  console.log("Character sheet tables ready!");
+}
+
+async function addCharacterEvents() {
+  console.log("Creating character event log...");
+  
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS character_events (
+      id SERIAL PRIMARY KEY,
+      character_id INTEGER NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+      type TEXT NOT NULL,
+      summary TEXT NOT NULL,
+      details JSON NOT NULL DEFAULT '{}',
+      prompt_history_id INTEGER REFERENCES prompt_history(id) ON DELETE SET NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+  
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS character_events_character_id_idx ON character_events (character_id, id)`);
+  
+  console.log("Character event log ready!");
+}
+
+async function addEras() {
+  console.log("Creating eras...");
+  
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS eras (
+      id SERIAL PRIMARY KEY,
+      character_id INTEGER NOT NULL REFERENCES characters(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      description TEXT,
+      starts_at TIMESTAMP NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+  
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS eras_character_id_idx ON eras (character_id)`);
+  
+  console.log("Eras ready!");
+}
+
+async function addInGameYears() {
+  console.log("Adding in-game years...");
+  
+  await db.execute(sql`
+    DO $$ 
+    BEGIN
+      BEGIN
+        ALTER TABLE characters ADD COLUMN current_year INTEGER;
+      EXCEPTION
+        WHEN duplicate_column THEN
+          RAISE NOTICE 'Column current_year already exists in characters';
+      END;
+    END $$;
+  `);
+  
+  await db.execute(sql`
+    DO $$ 
+    BEGIN
+      BEGIN
+        ALTER TABLE prompt_history ADD COLUMN year INTEGER;
+      EXCEPTION
+        WHEN duplicate_column THEN
+          RAISE NOTICE 'Column year already exists in prompt_history';
+      END;
+    END $$;
+  `);
+  
+  await db.execute(sql`
+    DO $$ 
+    BEGIN
+      BEGIN
+        ALTER TABLE experiences ADD COLUMN year INTEGER;
+      EXCEPTION
+        WHEN duplicate_column THEN
+          RAISE NOTICE 'Column year already exists in experiences';
+      END;
+    END $$;
+  `);
+  
+  console.log("In-game years added!");
+}
+
+async function addTraitMortality() {
+  console.log("Adding Character mortality...");
+  
+  await db.execute(sql`
+    DO $$ 
+    BEGIN
+      BEGIN
+        ALTER TABLE traits ADD COLUMN mortality TEXT;
+      EXCEPTION
+        WHEN duplicate_column THEN
+          RAISE NOTICE 'Column mortality already exists in traits';
+      END;
+      
+      BEGIN
+        ALTER TABLE traits ADD COLUMN introduced_at_turn INTEGER;
+      EXCEPTION
+        WHEN duplicate_column THEN
+          RAISE NOTICE 'Column introduced_at_turn already exists in traits';
+      END;
+    END $$;
+  `);
+  
+  console.log("Character mortality added!");
+}
+
+async function addTraitDescriptors() {
+  console.log("Creating trait descriptors...");
+  
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS trait_descriptors (
+      id SERIAL PRIMARY KEY,
+      trait_id INTEGER NOT NULL REFERENCES traits(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      text TEXT NOT NULL,
+      prompt_number INTEGER,
+      prompt_letter TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+  
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS trait_descriptors_trait_id_idx ON trait_descriptors (trait_id)`);
+  
+  console.log("Trait descriptors ready!");
+}
+
+async function addStationaryResources() {
+  console.log("Adding stationary Resources...");
+  
+  await db.execute(sql`
+    DO $$ 
+    BEGIN
+      BEGIN
+        ALTER TABLE traits ADD COLUMN stationary BOOLEAN NOT NULL DEFAULT FALSE;
+      EXCEPTION
+        WHEN duplicate_column THEN
+          RAISE NOTICE 'Column stationary already exists in traits';
+      END;
+    END $$;
+  `);
+  
+  console.log("Stationary Resources added!");
+}
+
+async function addPromptActions() {
+  console.log("Adding prompt actions...");
+  
+  await db.execute(sql`
+    DO $$ 
+    BEGIN
+      BEGIN
+        ALTER TABLE prompts ADD COLUMN actions JSON NOT NULL DEFAULT '[]';
+      EXCEPTION
+        WHEN duplicate_column THEN
+          RAISE NOTICE 'Column actions already exists in prompts';
+      END;
+    END $$;
+  `);
+  
+  console.log("Prompt actions added!");
+}
+
+async function addAdminRole() {
+  console.log("Adding the admin role...");
+  
+  await db.execute(sql`
+    DO $$ 
+    BEGIN
+      BEGIN
+        ALTER TABLE users ADD COLUMN is_admin BOOLEAN NOT NULL DEFAULT FALSE;
+      EXCEPTION
+        WHEN duplicate_column THEN
+          RAISE NOTICE 'Column is_admin already exists in users';
+      END;
+    END $$;
+  `);
+  
+  console.log("Admin role added!");
+}
+
+// The JSON sheet columns are no longer in the schema, so they are read with raw SQL
+type JsonSheetRow = {
+  id: number;
+  memories: Memory[] | null;
+  skills: Trait[] | null;
+  resources: Trait[] | null;
+  relationships: Trait[] | null;
+  marks: Trait[] | null;
+  // A plain array of memories in the oldest rows, a Diary object after that
+  diary: Memory[] | Diary | null;
+};
+
+async function normalizeCharacterSheets() {
+  console.log("Moving character sheets into their own tables...");
+  
+  // The backfill and the column drop commit together, so a failure part way
+  // leaves the JSON columns in place and the migration can simply run again
+  const moved = await db.transaction(async (tx) => {
+    const { rows: columns } = await tx.execute(sql`
+      SELECT column_name FROM information_schema.columns
+      WHERE table_name = 'characters' AND column_name = 'memories'
+    `);
+    if (columns.length === 0) {
+      return null;
+    }
+    
+    const { rows } = await tx.execute(sql`
+      SELECT id, memories, skills, resources, relationships, marks, diary FROM characters
+    `);
+    const existingMemories = await tx.select({ id: memories.id, characterId: memories.characterId }).from(memories);
+    const existingTraits = await tx.select({ characterId: traits.characterId }).from(traits);
+    const usedMemoryIds = new Set(existingMemories.map(m => m.id));
+    // Experiences can point at turns that were undone or deleted since; those links are dropped
+    const historyIds = new Set((await tx.select({ id: promptHistory.id }).from(promptHistory)).map(h => h.id));
+    // Characters that already have sheet rows were moved by an earlier run
+    const alreadyMoved = new Set([...existingMemories, ...existingTraits].map(r => r.characterId));
+    let count = 0;
+    
+    for (const row of rows as JsonSheetRow[]) {
+      if (alreadyMoved.has(row.id)) continue;
+      count++;
+      
+      const resources = row.resources || [];
+      
+      // Older rows stored the diary as a plain array of memories, named by its "Diary: <name>" Resource
+      let diary: Diary | null = null;
+      if (Array.isArray(row.diary)) {
+        if (row.diary.length > 0) {
+          const resource = resources.find(r => r.name.startsWith("Diary:"));
+          diary = {
+            name: resource ? resource.name.replace(/^Diary:\s*/, "") : "Diary",
+            resourceName: resource ? resource.name : "Diary",
+            memories: row.diary,
+            lost: !!resource?.strikedOut,
+            createdAt: new Date().toISOString(),
+          };
+        }
+      } else {
+        diary = row.diary;
+      }
+      
+      let diaryId: number | null = null;
+      if (diary) {
+        const [created] = await tx.insert(diaries).values({
+          characterId: row.id,
+          name: diary.name,
+          resourceName: diary.resourceName,
+          lost: diary.lost,
+          createdAt: new Date(diary.createdAt),
+        }).returning();
+        diaryId = created.id;
+      }
+      const diaryMemoryIds = new Set((diary?.memories || []).map(m => m.id));
+      
+      const memoryList = row.memories || [];
+      for (let position = 0; position < memoryList.length; position++) {
+        const memory = memoryList[position];
+        // Ids used to be generated on the client, so make sure they are unique across characters
+        const id = memory.id && !usedMemoryIds.has(memory.id) ? memory.id : nanoid();
+        usedMemoryIds.add(id);
+        
+        await tx.insert(memories).values({
+          id,
+          characterId: row.id,
+          diaryId: memory.inDiary && diaryMemoryIds.has(memory.id) ? diaryId : null,
+          position,
+          title: memory.title || `Memory ${position + 1}`,
+          inDiary: !!memory.inDiary,
+          strikedOut: !!memory.strikedOut,
+        });
+        
+        const memoryExperiences = memory.experiences || [];
+        if (memoryExperiences.length > 0) {
+          await tx.insert(experiences).values(memoryExperiences.map((exp, expPosition) => ({
+            memoryId: id,
+            position: expPosition,
+            text: exp.text,
+            promptHistoryId: exp.promptHistoryId !== undefined && historyIds.has(exp.promptHistoryId) ? exp.promptHistoryId : null,
+            promptNumber: exp.promptNumber ?? null,
+            promptLetter: exp.promptLetter ?? null,
+            year: exp.year ?? null,
+            createdAt: isNaN(Date.parse(exp.createdAt)) ? new Date() : new Date(exp.createdAt),
+          })));
+        }
+      }
+      
+      const traitLists: Record<TraitType, Trait[]> = {
+        skills: row.skills || [],
+        resources,
+        relationships: row.relationships || [],
+        marks: row.marks || [],
+      };
+      for (const [type, list] of Object.entries(traitLists) as [TraitType, Trait[]][]) {
+        if (list.length === 0) continue;
+        await tx.insert(traits).values(list.map((trait, position) => ({
+          characterId: row.id,
+          type,
+          position,
+          name: trait.name,
+          checked: !!trait.checked,
+          strikedOut: !!trait.strikedOut,
+        })));
+      }
+    }
+    
+    await tx.execute(sql`
+      ALTER TABLE characters
+        DROP COLUMN memories,
+        DROP COLUMN skills,
+        DROP COLUMN resources,
+        DROP COLUMN relationships,
+        DROP COLUMN marks,
+        DROP COLUMN diary
+    `);
+    
+    return count;
+  });
+  
+  if (moved === null) {
+    console.log("Character sheets already normalized");
+    return;
+  }
+  
+  console.log(`Moved ${moved} character sheets`);
+}
+
 // Export the migration function
 export { runMigrations };
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { parsePromptActions } from "./prompt-actions";
+
+describe("parsePromptActions", () => {
+  it("reads create, gain and add as creating a trait", () => {
+    expect(parsePromptActions("Create a Skill.")).toEqual([
+      { kind: "create", target: "skills", count: 1, text: "Create a Skill" },
+    ]);
+    expect(parsePromptActions("Gain a Resource.")).toEqual([
+      { kind: "create", target: "resources", count: 1, text: "Gain a Resource" },
+    ]);
+    expect(parsePromptActions("Add a Mark.")).toEqual([
+      { kind: "create", target: "marks", count: 1, text: "Add a Mark" },
+    ]);
+  });
+
+  it("reads a new memory as creating one", () => {
+    expect(parsePromptActions("Create a new Memory about the fire.")).toEqual([
+      { kind: "create", target: "memories", count: 1, text: "Create a new Memory" },
+    ]);
+  });
+
+  it("keeps the mortality of a new Character", () => {
+    expect(parsePromptActions("Create a mortal Character. Create an immortal Character.")).toEqual([
+      { kind: "create", target: "relationships", count: 1, mortality: "mortal", text: "Create a mortal Character" },
+      { kind: "create", target: "relationships", count: 1, mortality: "immortal", text: "Create an immortal Character" },
+    ]);
+  });
+
+  it("keeps a stationary Resource stationary", () => {
+    expect(parsePromptActions("Gain a stationary Resource.")).toEqual([
+      { kind: "create", target: "resources", count: 1, stationary: true, text: "Gain a stationary Resource" },
+    ]);
+  });
+
+  it("reads lose and strike out as losing a trait", () => {
+    expect(parsePromptActions("Lose a Resource.")).toEqual([
+      { kind: "lose", target: "resources", count: 1, text: "Lose a Resource" },
+    ]);
+    expect(parsePromptActions("Strike out a Skill.")).toEqual([
+      { kind: "lose", target: "skills", count: 1, text: "Strike out a Skill" },
+    ]);
+  });
+
+  it("reads kill as losing a Character", () => {
+    expect(parsePromptActions("Kill a mortal Character.")).toEqual([
+      { kind: "lose", target: "relationships", count: 1, mortality: "mortal", text: "Kill a mortal Character" },
+    ]);
+  });
+
+  it("reads forget as losing a memory", () => {
+    expect(parsePromptActions("Forget a Memory.")).toEqual([
+      { kind: "lose", target: "memories", count: 1, text: "Forget a Memory" },
+    ]);
+  });
+
+  it("reads check as checking a Skill", () => {
+    expect(parsePromptActions("Check a Skill.")).toEqual([
+      { kind: "check", target: "skills", count: 1, text: "Check a Skill" },
+    ]);
+  });
+
+  it("reads counts written as words", () => {
+    expect(parsePromptActions("Check two Skills. Lose three Resources. Create another Character.")).toEqual([
+      { kind: "check", target: "skills", count: 2, text: "Check two Skills" },
+      { kind: "lose", target: "resources", count: 3, text: "Lose three Resources" },
+      { kind: "create", target: "relationships", count: 1, text: "Create another Character" },
+    ]);
+  });
+
+  it("reads all, all of and all your as every matching trait", () => {
+    expect(parsePromptActions("Lose all stationary Resources.")).toEqual([
+      { kind: "lose", target: "resources", count: "all", stationary: true, text: "Lose all stationary Resources" },
+    ]);
+    expect(parsePromptActions("Lose all of your Resources.")).toEqual([
+      { kind: "lose", target: "resources", count: "all", text: "Lose all of your Resources" },
+    ]);
+    expect(parsePromptActions("Kill all your mortal Characters.")).toEqual([
+      { kind: "lose", target: "relationships", count: "all", mortality: "mortal", text: "Kill all your mortal Characters" },
+    ]);
+  });
+
+  it("reads plural memories", () => {
+    expect(parsePromptActions("Forget two Memories.")).toEqual([
+      { kind: "lose", target: "memories", count: 2, text: "Forget two Memories" },
+    ]);
+  });
+
+  it("reads several instructions in order", () => {
+    const content = "Your sire abandons you. Lose a Resource and create a Mark. Then check a Skill.";
+    expect(parsePromptActions(content).map(a => `${a.kind} ${a.target}`)).toEqual([
+      "lose resources",
+      "create marks",
+      "check skills",
+    ]);
+  });
+
+  it("skips verbs used with a target they do not apply to", () => {
+    expect(parsePromptActions("Check a Resource.")).toEqual([]);
+    expect(parsePromptActions("Kill a Skill.")).toEqual([]);
+    expect(parsePromptActions("Forget a Character.")).toEqual([]);
+    expect(parsePromptActions("Gain a mortal Resource.")).toEqual([]);
+    expect(parsePromptActions("Create a stationary Skill.")).toEqual([]);
+  });
+
+  it("leaves text it does not recognise to the player", () => {
+    expect(parsePromptActions("")).toEqual([]);
+    expect(parsePromptActions("You wander the moors for a century, alone.")).toEqual([]);
+    expect(parsePromptActions("Describe a Character you have met.")).toEqual([]);
+    expect(parsePromptActions("Your skills grow rusty.")).toEqual([]);
+    expect(parsePromptActions("Recreate the mark of your clan.")).toEqual([]);
+  });
+});
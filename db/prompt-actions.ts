@@ -0,0 +1,76 @@
+import type { PromptAction, PromptActionKind } from "./schema";
+
+// Reads the mechanical instructions out of a prompt's text so the game can
+// offer them as a checklist. Prompts phrase them in a small, regular set of
+// ways ("Create a Skill", "Check two Skills", "Kill a mortal Character");
+// anything the parser does not recognise is simply left to the player.
+
+const VERBS: Record<string, PromptActionKind> = {
+  create: "create",
+  gain: "create",
+  add: "create",
+  lose: "lose",
+  kill: "lose",
+  "strike out": "lose",
+  forget: "lose",
+  check: "check",
+};
+
+const TARGETS: Record<string, PromptAction["target"]> = {
+  skill: "skills",
+  resource: "resources",
+  character: "relationships",
+  mark: "marks",
+  memory: "memories",
+  memorie: "memories",
+};
+
+const COUNTS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  another: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+};
+
+const ACTION_PATTERN = new RegExp(
+  "\\b(create|gain|add|lose|kill|strike out|forget|check)\\s+" +
+  "(a|an|one|another|two|three|four|five|all(?:\\s+of)?(?:\\s+your)?)?\\s*" +
+  "(?:new\\s+)?" +
+  "(mortal|immortal|stationary)?\\s*" +
+  "(skill|resource|character|mark|memor(?:y|ie))s?\\b",
+  "gi"
+);
+
+export function parsePromptActions(content: string): PromptAction[] {
+  const actions: PromptAction[] = [];
+
+  for (const match of Array.from(content.matchAll(ACTION_PATTERN))) {
+    const [text, verb, amount, qualifier, noun] = match;
+    const kind = VERBS[verb.toLowerCase()];
+    const target = TARGETS[noun.toLowerCase()];
+    const quality = qualifier?.toLowerCase();
+
+    // Only Skills are checked, only Characters are killed and only memories forgotten
+    if (kind === "check" && target !== "skills") continue;
+    if (verb.toLowerCase() === "kill" && target !== "relationships") continue;
+    if (verb.toLowerCase() === "forget" && target !== "memories") continue;
+    if ((quality === "mortal" || quality === "immortal") && target !== "relationships") continue;
+    if (quality === "stationary" && target !== "resources") continue;
+
+    const lowerAmount = amount?.toLowerCase();
+    actions.push({
+      kind,
+      target,
+      count: lowerAmount?.startsWith("all") ? "all" : COUNTS[lowerAmount ?? "a"] ?? 1,
+      ...((quality === "mortal" || quality === "immortal") && { mortality: quality }),
+      ...(quality === "stationary" && { stationary: true }),
+      text: text.trim(),
+    });
+  }
+
+  return actions;
+}
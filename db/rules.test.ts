@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { agingMortals, MORTAL_LIFESPAN_PROMPTS } from "./rules";
+
+describe("agingMortals", () => {
+  it("finds mortals introduced a lifespan ago or more", () => {
+    const relationships = [
+      { name: "Agnes", mortality: "mortal" as const, introducedAtTurn: 0 },
+      { name: "Bertram", mortality: "mortal" as const, introducedAtTurn: 1 },
+    ];
+    expect(agingMortals(relationships, MORTAL_LIFESPAN_PROMPTS).map(t => t.name)).toEqual(["Agnes"]);
+  });
+
+  it("skips immortals, the lost and Characters with no known introduction", () => {
+    expect(agingMortals([
+      { name: "Agnes", mortality: "immortal", introducedAtTurn: 0 },
+      { name: "Bertram", mortality: "mortal", introducedAtTurn: 0, strikedOut: true },
+      { name: "Clara", mortality: "mortal" },
+      { name: "Dmitri", introducedAtTurn: 0 },
+    ], 20)).toEqual([]);
+  });
+
+  it("accepts a sheet without relationships", () => {
+    expect(agingMortals(null, 20)).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import type { Diary, Memory, Trait } from "./schema";
+
+// Game rules shared by the server, which rejects changes that break them,
+// and the client, which uses them to disable actions before they are attempted.
+
+export const MAX_ACTIVE_MEMORIES = 5;
+export const MAX_EXPERIENCES_PER_MEMORY = 3;
+export const MAX_DIARY_MEMORIES = 4;
+// Mortals die of old age; the rules suggest noticing it every four or five prompts
+export const MORTAL_LIFESPAN_PROMPTS = 5;
+
+// A memory is active while the vampire still holds it in their mind:
+// not forgotten and not moved into a diary
+export function isActiveMemory(memory: Memory): boolean {
+  return !memory.strikedOut && !memory.inDiary;
+}
+
+export function countActiveMemories(memories: Memory[] | null | undefined): number {
+  return (Array.isArray(memories) ? memories : []).filter(isActiveMemory).length;
+}
+
+export function canCreateMemory(memories: Memory[] | null | undefined): boolean {
+  return countActiveMemories(memories) < MAX_ACTIVE_MEMORIES;
+}
+
+export function canAddExperience(memory: Memory): boolean {
+  return isActiveMemory(memory) &&
+    (memory.experiences?.length || 0) < MAX_EXPERIENCES_PER_MEMORY;
+}
+
+// Memories that can take another experience right now
+export function memoriesWithRoom(memories: Memory[] | null | undefined): Memory[] {
+  return (Array.isArray(memories) ? memories : []).filter(canAddExperience);
+}
+
+// A diary that has been lost no longer counts; a new one has to be started
+export function hasActiveDiary(diary: Diary | null | undefined): diary is Diary {
+  return !!diary && !diary.lost;
+}
+
+export function canAddToDiary(diary: Diary | null | undefined): boolean {
+  return !hasActiveDiary(diary) || diary.memories.length < MAX_DIARY_MEMORIES;
+}
+
+// The era a moment falls in: the last one to begin at or before it. Dates may
+// be strings once they have been through JSON.
+export function eraAt<T extends { startsAt: Date | string }>(eras: T[], at: Date | string): T | null {
+  const time = new Date(at).getTime();
+  let current: T | null = null;
+  for (const era of eras) {
+    const start = new Date(era.startsAt).getTime();
+    if (start <= time && (!current || start >= new Date(current.startsAt).getTime())) {
+      current = era;
+    }
+  }
+  return current;
+}
+
+// Mortal Characters still on the sheet who were introduced long enough ago
+// that they have probably died of old age
+export function agingMortals(relationships: Trait[] | null | undefined, promptsAnswered: number): Trait[] {
+  return (Array.isArray(relationships) ? relationships : []).filter(t =>
+    t.mortality === "mortal" &&
+    !t.strikedOut &&
+    t.introducedAtTurn !== undefined &&
+    promptsAnswered - t.introducedAtTurn >= MORTAL_LIFESPAN_PROMPTS
+  );
+}
@@ -1,16 +1,27 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
-import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+import { pgTable, pgEnum, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema, createUpdateSchema } from "drizzle-zod";
+import { z } from "zod";
 import { relations } from "drizzle-orm";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").unique().notNull(),
   password: text("password").notNull(),
+  // Admins can edit the prompt catalog; granted with scripts/make-admin.ts
+  isAdmin: boolean("is_admin").default(false).notNull(),
 });
 
 export type Experience = {
+  // Row id in the experiences table; unset until a new experience has been saved
+  id?: number;
   text: string;
   createdAt: string;
+  // Set when the experience was recorded from a prompt response
+  promptHistoryId?: number;
+  promptNumber?: number;
+  promptLetter?: string;
+  // In-game year the experience happened in, if the player was tracking time
+  year?: number;
 };
 
 export type Memory = {
@@ -21,10 +32,62 @@ export type Memory = {
   strikedOut: boolean;
 };
 
+// A diary is a Resource the vampire writes memories into so they are not forgotten.
+// Losing the Resource loses every memory written in it.
+export type Diary = {
+  // Unset until a newly started diary has been saved
+  id?: number;
+  name: string;
+  // Name of the Resource standing for the diary on the character sheet
+  resourceName: string;
+  memories: Memory[];
+  lost: boolean;
+  createdAt: string;
+};
+
+// A sentence fragment added to a Character each time the vampire deals with
+// them, e.g. "I freed him from a Turkish prison"
+export type TraitDescriptor = {
+  // Row id in the trait_descriptors table; unset until a new descriptor has been saved
+  id?: number;
+  text: string;
+  createdAt: string;
+  // The prompt the vampire was at when the descriptor was added
+  promptNumber?: number;
+  promptLetter?: string;
+};
+
+// Characters (relationship traits) are either mortals, who die of old age, or immortals
+export type Mortality = "mortal" | "immortal";
+
 export type Trait = {
   name: string;
   checked?: boolean;
   strikedOut?: boolean;
+  // Only set on Resources that cannot be carried off, like a haunted cave
+  stationary?: boolean;
+  // Only set on Characters
+  mortality?: Mortality;
+  // Prompts the vampire had answered when the Character was introduced, or when
+  // the player last decided they had not died of old age; set by the server
+  introducedAtTurn?: number;
+  // Only set on Characters, oldest first
+  descriptors?: TraitDescriptor[];
+};
+
+// An instruction read out of a prompt's text, such as "Kill a mortal Character"
+export type PromptActionKind = "create" | "lose" | "check";
+
+export type PromptAction = {
+  kind: PromptActionKind;
+  // The trait list or the memories the instruction is about
+  target: TraitType | "memories";
+  // How many the prompt asks for, or "all" as in "Lose all stationary Resources"
+  count: number | "all";
+  mortality?: Mortality;
+  stationary?: boolean;
+  // The words of the prompt the action was read from
+  text: string;
 };
 
 export type VisitedPrompt = {
@@ -32,29 +95,117 @@ export type VisitedPrompt = {
   letters: string[];
 };
 
+// What a prompt turn changed, kept on the history entry so the turn can be undone
+export type TurnUndoState = {
+  previousPrompt: number;
+  previousLetter: string;
+  previousVisitedPrompts: VisitedPrompt[];
+  // Memory the response was appended to, or null if it was not stored in one
+  memoryId: string | null;
+  createdMemory: boolean;
+  experienceCreatedAt: string | null;
+  // Memory given up to make room when the turn needed a sixth one
+  displacedMemory?: {
+    id: string;
+    action: MemoryDecisionAction;
+  };
+};
+
+// How a player makes room when a new memory is needed and all five are held
+export type MemoryDecisionAction = "forget" | "diary";
+
+// "server" dice are rolled and logged by the server; "manual" lets the player
+// enter results from physical dice
+export type DiceMode = "server" | "manual";
+
+// Most history entries answer a prompt; "diary" entries record the player
+// consulting a diary entry while at that prompt
+export type PromptHistoryKind = "prompt" | "diary";
+
 export const characters = pgTable("characters", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
   name: text("name").notNull(),
-  memories: json("memories").$type<Memory[]>().default([]).notNull(),
-  skills: json("skills").$type<Trait[]>().default([]).notNull(),
-  resources: json("resources").$type<Trait[]>().default([]).notNull(),
-  relationships: json("relationships").$type<Trait[]>().default([]).notNull(),
-  marks: json("marks").$type<Trait[]>().default([]).notNull(),
-  diary: json("diary").$type<Memory[]>().default([]).notNull(),
   currentPrompt: integer("current_prompt").default(1),
   currentLetter: text("current_letter").default("a").notNull(),
   visitedPrompts: json("visited_prompts").$type<VisitedPrompt[]>().default([]).notNull(),
+  diceMode: text("dice_mode").$type<DiceMode>().default("server").notNull(),
+  // In-game year, advanced by the player as prompts say time passes; null until first set
+  currentYear: integer("current_year"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// The character sheet lives in its own tables; server/character-store.ts
+// assembles it back into the Memory, Trait and Diary shapes the API returns
+
+export const traitType = pgEnum("trait_type", ["skills", "resources", "relationships", "marks"]);
+export type TraitType = typeof traitType.enumValues[number];
+
+export const traits = pgTable("traits", {
+  id: serial("id").primaryKey(),
+  characterId: integer("character_id").references(() => characters.id, { onDelete: "cascade" }).notNull(),
+  type: traitType("type").notNull(),
+  position: integer("position").notNull(),
+  name: text("name").notNull(),
+  checked: boolean("checked").default(false).notNull(),
+  strikedOut: boolean("striked_out").default(false).notNull(),
+  stationary: boolean("stationary").default(false).notNull(),
+  mortality: text("mortality").$type<Mortality>(),
+  introducedAtTurn: integer("introduced_at_turn"),
+});
+
+export const traitDescriptors = pgTable("trait_descriptors", {
+  id: serial("id").primaryKey(),
+  traitId: integer("trait_id").references(() => traits.id, { onDelete: "cascade" }).notNull(),
+  position: integer("position").notNull(),
+  text: text("text").notNull(),
+  promptNumber: integer("prompt_number"),
+  promptLetter: text("prompt_letter"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const diaries = pgTable("diaries", {
+  id: serial("id").primaryKey(),
+  characterId: integer("character_id").references(() => characters.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  resourceName: text("resource_name").notNull(),
+  lost: boolean("lost").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const memories = pgTable("memories", {
+  // Generated by the server with nanoid
+  id: text("id").primaryKey(),
+  characterId: integer("character_id").references(() => characters.id, { onDelete: "cascade" }).notNull(),
+  // The diary the memory was written into, if any
+  diaryId: integer("diary_id").references(() => diaries.id, { onDelete: "set null" }),
+  position: integer("position").notNull(),
+  title: text("title").notNull(),
+  inDiary: boolean("in_diary").default(false).notNull(),
+  strikedOut: boolean("striked_out").default(false).notNull(),
+});
+
+export const experiences = pgTable("experiences", {
+  id: serial("id").primaryKey(),
+  memoryId: text("memory_id").references(() => memories.id, { onDelete: "cascade" }).notNull(),
+  position: integer("position").notNull(),
+  text: text("text").notNull(),
+  promptHistoryId: integer("prompt_history_id").references(() => promptHistory.id, { onDelete: "set null" }),
+  promptNumber: integer("prompt_number"),
+  promptLetter: text("prompt_letter"),
+  year: integer("year"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const prompts = pgTable("prompts", {
   id: serial("id").primaryKey(),
   promptNumber: integer("prompt_number").notNull(),
   promptLetter: text("prompt_letter").notNull().default("a"),
   entry: text("entry").notNull(),
   content: text("content").notNull(),
+  // Parsed from content by db/prompt-actions.ts when prompts are imported or migrated
+  actions: json("actions").$type<PromptAction[]>().default([]).notNull(),
 });
 
 export const promptHistory = pgTable("prompt_history", {
@@ -63,8 +214,89 @@ export const promptHistory = pgTable("prompt_history", {
   promptId: integer("prompt_id").references(() => prompts.id).notNull(),
   promptNumber: integer("prompt_number").notNull(),
   promptLetter: text("prompt_letter").notNull(),
-  diceRoll: json("dice_roll").$type<{d10: number, d6: number}>().notNull(),
+  kind: text("kind").$type<PromptHistoryKind>().default("prompt").notNull(),
+  // Null for diary consultations, which involve no roll
+  diceRoll: json("dice_roll").$type<{d10: number, d6: number, mode?: DiceMode}>(),
   response: text("response").notNull(),
+  // The diary memory a "diary" entry refers to
+  diaryMemoryId: text("diary_memory_id"),
+  // In-game year when the entry was made; its era is the one it falls in on the chronicle
+  year: integer("year"),
+  undoState: json("undo_state").$type<TurnUndoState>(),
+  // True while the response is waiting for the player to give up a memory
+  memoryPending: boolean("memory_pending").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A player-named stretch of the vampire's unlife. It runs from startsAt until
+// the next era begins, and groups the chronicle.
+export const eras = pgTable("eras", {
+  id: serial("id").primaryKey(),
+  characterId: integer("character_id").references(() => characters.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  startsAt: timestamp("starts_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Every change to a character is appended here and never updated or deleted
+export type CharacterEventType =
+  | "character_created"
+  | "character_updated"
+  | "trait_added"
+  | "trait_checked"
+  | "trait_unchecked"
+  | "trait_struck"
+  | "trait_restored"
+  | "trait_removed"
+  | "trait_described"
+  | "trait_mortality_set"
+  | "memory_created"
+  | "memory_renamed"
+  | "memory_forgotten"
+  | "memory_remembered"
+  | "memory_diaried"
+  | "memory_deleted"
+  | "memories_reordered"
+  | "experience_added"
+  | "experience_edited"
+  | "experience_removed"
+  | "experience_moved"
+  | "experiences_reordered"
+  | "diary_started"
+  | "diary_lost"
+  | "diary_consulted"
+  | "prompt_answered"
+  | "prompt_undone"
+  | "response_edited"
+  | "era_created"
+  | "era_updated"
+  | "era_deleted"
+  | "time_passed";
+
+export type CharacterEventDetails = Record<string, string | number | boolean | null>;
+
+export const characterEvents = pgTable("character_events", {
+  id: serial("id").primaryKey(),
+  characterId: integer("character_id").references(() => characters.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").$type<CharacterEventType>().notNull(),
+  summary: text("summary").notNull(),
+  details: json("details").$type<CharacterEventDetails>().default({}).notNull(),
+  // The turn the change happened in, if it came from a prompt
+  promptHistoryId: integer("prompt_history_id").references(() => promptHistory.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const diceRolls = pgTable("dice_rolls", {
+  id: serial("id").primaryKey(),
+  characterId: integer("character_id").references(() => characters.id).notNull(),
+  promptHistoryId: integer("prompt_history_id").references(() => promptHistory.id),
+  d10: integer("d10").notNull(),
+  d6: integer("d6").notNull(),
+  mode: text("mode").$type<DiceMode>().notNull(),
+  // Seed is only present for server rolls; manual rolls cannot be verified
+  seed: text("seed"),
+  nonce: integer("nonce").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -74,6 +306,76 @@ export const characterRelations = relations(characters, ({ one, many }) => ({
     references: [users.id],
   }),
   promptHistory: many(promptHistory),
+  diceRolls: many(diceRolls),
+  memories: many(memories),
+  traits: many(traits),
+  diaries: many(diaries),
+  events: many(characterEvents),
+  eras: many(eras),
+}));
+
+export const eraRelations = relations(eras, ({ one }) => ({
+  character: one(characters, {
+    fields: [eras.characterId],
+    references: [characters.id],
+  }),
+}));
+
+export const characterEventRelations = relations(characterEvents, ({ one }) => ({
+  character: one(characters, {
+    fields: [characterEvents.characterId],
+    references: [characters.id],
+  }),
+  promptHistory: one(promptHistory, {
+    fields: [characterEvents.promptHistoryId],
+    references: [promptHistory.id],
+  }),
+}));
+
+export const traitRelations = relations(traits, ({ one, many }) => ({
+  character: one(characters, {
+    fields: [traits.characterId],
+    references: [characters.id],
+  }),
+  descriptors: many(traitDescriptors),
+}));
+
+export const traitDescriptorRelations = relations(traitDescriptors, ({ one }) => ({
+  trait: one(traits, {
+    fields: [traitDescriptors.traitId],
+    references: [traits.id],
+  }),
+}));
+
+export const diaryRelations = relations(diaries, ({ one, many }) => ({
+  character: one(characters, {
+    fields: [diaries.characterId],
+    references: [characters.id],
+  }),
+  memories: many(memories),
+}));
+
+export const memoryRelations = relations(memories, ({ one, many }) => ({
+  character: one(characters, {
+    fields: [memories.characterId],
+    references: [characters.id],
+  }),
+  diary: one(diaries, {
+    fields: [memories.diaryId],
+    references: [diaries.id],
+  }),
+  experiences: many(experiences),
+}));
+
+export const experienceRelations = relations(experiences, ({ one }) => ({
+  memory: one(memories, {
+    fields: [experiences.memoryId],
+    references: [memories.id],
+  }),
+  promptHistory: one(promptHistory, {
+    fields: [experiences.promptHistoryId],
+    references: [promptHistory.id],
+  }),
 }));
 
 export const promptHistoryRelations = relations(promptHistory, ({ one }) => ({
@@ -87,10 +389,128 @@ export const promptHistoryRelations = relations(promptHistory, ({ one }) => ({
   }),
 }));
 
-export const insertUserSchema = createInsertSchema(users);
+export const diceRollRelations = relations(diceRolls, ({ one }) => ({
+  character: one(characters, {
+    fields: [diceRolls.characterId],
+    references: [characters.id],
+  }),
+  promptHistory: one(promptHistory, {
+    fields: [diceRolls.promptHistoryId],
+    references: [promptHistory.id],
+  }),
+}));
+
+// Registration and login only ever take a username and password
+export const insertUserSchema = createInsertSchema(users).pick({ username: true, password: true });
 export const selectUserSchema = createSelectSchema(users);
+
+// A prompt variant as the admin catalog routes accept it
+export const promptInputSchema = z.object({
+  promptNumber: z.number().int().min(1),
+  promptLetter: z.enum(["a", "b", "c"]),
+  content: z.string().trim().min(1, "Prompt text cannot be empty"),
+}).strict();
+
+export const experienceSchema = z.object({
+  id: z.number().int().optional(),
+  text: z.string().min(1),
+  createdAt: z.string(),
+  promptHistoryId: z.number().int().optional(),
+  promptNumber: z.number().int().optional(),
+  promptLetter: z.string().optional(),
+  year: z.number().int().optional(),
+}).strict();
+
+export const memorySchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  experiences: z.array(experienceSchema),
+  inDiary: z.boolean(),
+  strikedOut: z.boolean(),
+}).strict();
+
+export const traitDescriptorSchema = z.object({
+  id: z.number().int().optional(),
+  text: z.string().min(1),
+  createdAt: z.string(),
+  promptNumber: z.number().int().optional(),
+  promptLetter: z.string().optional(),
+}).strict();
+
+export const traitSchema = z.object({
+  name: z.string().min(1),
+  checked: z.boolean().optional(),
+  strikedOut: z.boolean().optional(),
+  stationary: z.boolean().optional(),
+  mortality: z.enum(["mortal", "immortal"]).optional(),
+  introducedAtTurn: z.number().int().min(0).optional(),
+  descriptors: z.array(traitDescriptorSchema).optional(),
+}).strict();
+
+// Columns only the server may write: identity, ownership, timestamps, prompt progress
+// and in-game time, which change through their own routes
+export const serverOwnedCharacterColumns = [
+  "id",
+  "userId",
+  "createdAt",
+  "updatedAt",
+  "currentPrompt",
+  "currentLetter",
+  "visitedPrompts",
+  "currentYear",
+] as const;
+
+// Parts of the sheet that only change through the memory, trait and diary
+// routes, which enforce the memory, diary and trait rules
+export const sheetCharacterFields = [
+  "memories",
+  "skills",
+  "resources",
+  "relationships",
+  "marks",
+  "diary",
+] as const;
+
+export const updateCharacterSchema = createUpdateSchema(characters, {
+  name: (schema) => schema.min(1),
+  diceMode: z.enum(["server", "manual"]).optional(),
+}).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+  currentPrompt: true,
+  currentLetter: true,
+  visitedPrompts: true,
+  currentYear: true,
+}).strict();
 export type InsertUser = typeof users.$inferInsert;
 export type SelectUser = typeof users.$inferSelect;
-export type Character = typeof characters.$inferSelect;
+export type CharacterRow = typeof characters.$inferSelect;
+// The character sheet as the API returns it, assembled from its tables
+export type CharacterSheet = {
+  memories: Memory[];
+  skills: Trait[];
+  resources: Trait[];
+  relationships: Trait[];
+  marks: Trait[];
+  diary: Diary | null;
+};
+export type Character = CharacterRow & CharacterSheet;
 export type Prompt = typeof prompts.$inferSelect;
-export type PromptHistory = typeof promptHistory.$inferSelect;
\ No newline at end of file
+export type PromptHistory = typeof promptHistory.$inferSelect;
+export type DiceRollLog = typeof diceRolls.$inferSelect;
+export type CharacterEvent = typeof characterEvents.$inferSelect;
+export type Era = typeof eras.$inferSelect;
+
+// The chronicle reads the prompt history and event log as one story. Events
+// from a prompt turn are attached to its response.
+export type ChronicleItem =
+  | { type: "response"; at: Date; entry: PromptHistory & { promptContent: string | null }; events: CharacterEvent[] }
+  | { type: "event"; at: Date; event: CharacterEvent };
+
+// Items before the first era have a null era
+export type ChronicleSection = {
+  era: Era | null;
+  items: ChronicleItem[];
+};
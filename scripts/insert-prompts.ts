@@ -1,5 +1,6 @@
 import { db } from "../db";
 import { prompts } from "../db/schema";
+import { parsePromptActions } from "../db/prompt-actions";
 import { eq, and, sql } from "drizzle-orm";
 import fs from "fs";
 import path from "path";
@@ -110,6 +111,7 @@ async function insertPrompts() {
           .set({
             content: entry.content,
             entry: entry.promptLetter,
+            actions: parsePromptActions(entry.content),
           })
           .where(and(
             eq(prompts.promptNumber, entry.promptNumber),
@@ -124,7 +126,8 @@ async function insertPrompts() {
           promptNumber: entry.promptNumber,
           promptLetter: entry.promptLetter,
           entry: entry.promptLetter, // Use the letter as the entry value
-          content: entry.content
+          content: entry.content,
+          actions: parsePromptActions(entry.content)
         });
         
         console.log(`Inserted prompt ${entry.promptNumber}${entry.promptLetter}`);
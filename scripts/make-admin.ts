@@ -0,0 +1,37 @@
+import { db } from "../db";
+import { users } from "../db/schema";
+import { eq } from "drizzle-orm";
+
+// Grants or revokes the admin role that unlocks the prompt catalog page.
+// Usage: tsx scripts/make-admin.ts <username> [--revoke]
+
+async function makeAdmin() {
+  const username = process.argv[2];
+  const isAdmin = !process.argv.includes('--revoke');
+
+  if (!username) {
+    console.error('Usage: tsx scripts/make-admin.ts <username> [--revoke]');
+    process.exit(1);
+  }
+
+  try {
+    const [user] = await db.update(users)
+      .set({ isAdmin })
+      .where(eq(users.username, username))
+      .returning();
+
+    if (!user) {
+      console.error(`No user named "${username}"`);
+      process.exit(1);
+    }
+
+    console.log(isAdmin ? `${username} is now an admin` : `${username} is no longer an admin`);
+  } catch (error) {
+    console.error('Error updating user:', error);
+    process.exit(1);
+  } finally {
+    process.exit(0);
+  }
+}
+
+makeAdmin();
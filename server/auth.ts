@@ -134,7 +134,7 @@ export function setupAuth(app: Express) {
         }
         return res.json({
           message: "Registration successful",
-          user: { id: newUser.id, username: newUser.username },
+          user: { id: newUser.id, username: newUser.username, isAdmin: newUser.isAdmin },
         });
       });
     } catch (error) {
@@ -166,7 +166,7 @@ export function setupAuth(app: Express) {
 
         return res.json({
           message: "Login successful",
-          user: { id: user.id, username: user.username },
+          user: { id: user.id, username: user.username, isAdmin: user.isAdmin },
         });
       });
     };
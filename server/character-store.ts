@@ -0,0 +1,414 @@
+import { db } from "@db";
+import {
+  characters,
+  diaries,
+  experiences,
+  memories,
+  promptHistory,
+  traitDescriptors,
+  traits,
+  type Character,
+  type CharacterRow,
+  type CharacterSheet,
+  type Diary,
+  type Experience,
+  type Memory,
+  type Trait,
+  type TraitDescriptor,
+  type TraitType,
+} from "@db/schema";
+import { and, asc, count, desc, eq, inArray } from "drizzle-orm";
+
+// Reads and writes the character sheet, which is stored across the memories,
+// experiences, traits and diaries tables but returned by the API in the same
+// shape it had when it lived in JSON columns on characters.
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type Executor = typeof db | Transaction;
+
+const TRAIT_TYPES: TraitType[] = ["skills", "resources", "relationships", "marks"];
+
+function toDescriptor(row: typeof traitDescriptors.$inferSelect): TraitDescriptor {
+  return {
+    id: row.id,
+    text: row.text,
+    createdAt: row.createdAt.toISOString(),
+    ...(row.promptNumber !== null && { promptNumber: row.promptNumber }),
+    ...(row.promptLetter !== null && { promptLetter: row.promptLetter }),
+  };
+}
+
+function toTrait(row: typeof traits.$inferSelect, descriptorRows: (typeof traitDescriptors.$inferSelect)[]): Trait {
+  const descriptors = descriptorRows.filter(d => d.traitId === row.id).map(toDescriptor);
+  return {
+    name: row.name,
+    ...(row.checked && { checked: true }),
+    ...(row.strikedOut && { strikedOut: true }),
+    ...(row.stationary && { stationary: true }),
+    ...(row.mortality !== null && { mortality: row.mortality }),
+    ...(row.introducedAtTurn !== null && { introducedAtTurn: row.introducedAtTurn }),
+    ...(descriptors.length > 0 && { descriptors }),
+  };
+}
+
+function toExperience(row: typeof experiences.$inferSelect): Experience {
+  return {
+    id: row.id,
+    text: row.text,
+    createdAt: row.createdAt.toISOString(),
+    ...(row.promptHistoryId !== null && { promptHistoryId: row.promptHistoryId }),
+    ...(row.promptNumber !== null && { promptNumber: row.promptNumber }),
+    ...(row.promptLetter !== null && { promptLetter: row.promptLetter }),
+    ...(row.year !== null && { year: row.year }),
+  };
+}
+
+export async function loadSheet(executor: Executor, characterId: number): Promise<CharacterSheet> {
+  const memoryRows = await executor
+    .select()
+    .from(memories)
+    .where(eq(memories.characterId, characterId))
+    .orderBy(asc(memories.position));
+
+  const experienceRows = memoryRows.length > 0
+    ? await executor
+        .select()
+        .from(experiences)
+        .where(inArray(experiences.memoryId, memoryRows.map(m => m.id)))
+        .orderBy(asc(experiences.position))
+    : [];
+
+  const traitRows = await executor
+    .select()
+    .from(traits)
+    .where(eq(traits.characterId, characterId))
+    .orderBy(asc(traits.position));
+
+  const descriptorRows = traitRows.length > 0
+    ? await executor
+        .select()
+        .from(traitDescriptors)
+        .where(inArray(traitDescriptors.traitId, traitRows.map(t => t.id)))
+        .orderBy(asc(traitDescriptors.position))
+    : [];
+
+  // Only the latest diary is shown; earlier ones were lost
+  const [diaryRow] = await executor
+    .select()
+    .from(diaries)
+    .where(eq(diaries.characterId, characterId))
+    .orderBy(desc(diaries.createdAt), desc(diaries.id))
+    .limit(1);
+
+  const memoryList: Memory[] = memoryRows.map(row => ({
+    id: row.id,
+    title: row.title,
+    experiences: experienceRows.filter(exp => exp.memoryId === row.id).map(toExperience),
+    inDiary: row.inDiary,
+    strikedOut: row.strikedOut,
+  }));
+
+  const diary: Diary | null = diaryRow
+    ? {
+        id: diaryRow.id,
+        name: diaryRow.name,
+        resourceName: diaryRow.resourceName,
+        memories: memoryList.filter(m => memoryRows.find(row => row.id === m.id)?.diaryId === diaryRow.id),
+        lost: diaryRow.lost,
+        createdAt: diaryRow.createdAt.toISOString(),
+      }
+    : null;
+
+  const traitsOf = (type: TraitType) => traitRows.filter(t => t.type === type).map(t => toTrait(t, descriptorRows));
+
+  return {
+    memories: memoryList,
+    skills: traitsOf("skills"),
+    resources: traitsOf("resources"),
+    relationships: traitsOf("relationships"),
+    marks: traitsOf("marks"),
+    diary,
+  };
+}
+
+export async function withSheet(executor: Executor, row: CharacterRow): Promise<Character> {
+  return { ...row, ...(await loadSheet(executor, row.id)) };
+}
+
+// Loads a character owned by userId; lock takes the row lock used to serialize turns and edits
+export async function loadCharacter(
+  executor: Executor,
+  characterId: number,
+  userId: number,
+  options: { lock?: boolean } = {}
+): Promise<Character | undefined> {
+  const query = executor
+    .select()
+    .from(characters)
+    .where(
+      and(
+        eq(characters.id, characterId),
+        eq(characters.userId, userId)
+      )
+    )
+    .limit(1);
+
+  const [row] = options.lock ? await query.for("update") : await query;
+  return row ? withSheet(executor, row) : undefined;
+}
+
+function toTimestamp(value: string) {
+  return isNaN(Date.parse(value)) ? new Date() : new Date(value);
+}
+
+function sameRow<T extends object>(row: T, values: Partial<T>) {
+  return (Object.keys(values) as (keyof T)[]).every(key => {
+    const a = row[key];
+    const b = values[key];
+    return a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b;
+  });
+}
+
+// Brings the experiences of one memory in line with list. Experiences that
+// were saved before keep their row, even when moved from another memory;
+// only rows that changed are written.
+async function saveExperiences(
+  executor: Executor,
+  memoryId: string,
+  list: Experience[],
+  existing: Map<number, typeof experiences.$inferSelect>
+) {
+  for (let position = 0; position < list.length; position++) {
+    const exp = list[position];
+    const values = {
+      memoryId,
+      position,
+      text: exp.text,
+      promptHistoryId: exp.promptHistoryId ?? null,
+      promptNumber: exp.promptNumber ?? null,
+      promptLetter: exp.promptLetter ?? null,
+      year: exp.year ?? null,
+      createdAt: toTimestamp(exp.createdAt),
+    };
+    const row = exp.id !== undefined ? existing.get(exp.id) : undefined;
+    if (!row) {
+      await executor.insert(experiences).values(values);
+    } else if (!sameRow(row, values)) {
+      await executor.update(experiences).set(values).where(eq(experiences.id, row.id));
+    }
+  }
+}
+
+// Same as saveExperiences, for the descriptors of one trait
+async function saveDescriptors(
+  executor: Executor,
+  traitId: number,
+  list: TraitDescriptor[],
+  existing: Map<number, typeof traitDescriptors.$inferSelect>
+) {
+  for (let position = 0; position < list.length; position++) {
+    const descriptor = list[position];
+    const values = {
+      traitId,
+      position,
+      text: descriptor.text,
+      promptNumber: descriptor.promptNumber ?? null,
+      promptLetter: descriptor.promptLetter ?? null,
+      createdAt: toTimestamp(descriptor.createdAt),
+    };
+    const row = descriptor.id !== undefined ? existing.get(descriptor.id) : undefined;
+    if (!row || row.traitId !== traitId) {
+      await executor.insert(traitDescriptors).values(values);
+    } else if (!sameRow(row, values)) {
+      await executor.update(traitDescriptors).set(values).where(eq(traitDescriptors.id, row.id));
+    }
+  }
+}
+
+// Ids of the saved rows that list no longer holds
+function unkeptIds<T extends { id: number }>(existing: Map<number, T>, kept: { id?: number }[]) {
+  const keptIds = new Set(kept.map(item => item.id));
+  return Array.from(existing.keys()).filter(id => !keptIds.has(id));
+}
+
+// Saves the parts of the sheet present in changes. Parts left out are not
+// touched. Memories, experiences and descriptors are matched to their rows by
+// id and traits by name, so only what changed is written and row ids stay stable.
+export async function saveSheet(executor: Executor, characterId: number, changes: Partial<CharacterSheet>) {
+  let diaryId: number | undefined;
+  let diaryMemoryIds = new Set<string>();
+
+  if (changes.diary) {
+    const { id, name, resourceName, lost, memories: diaryMemories } = changes.diary;
+    if (id) {
+      await executor
+        .update(diaries)
+        .set({ name, resourceName, lost })
+        .where(eq(diaries.id, id));
+      diaryId = id;
+    } else {
+      const [created] = await executor
+        .insert(diaries)
+        .values({ characterId, name, resourceName, lost })
+        .returning();
+      diaryId = created.id;
+    }
+    diaryMemoryIds = new Set(diaryMemories.map(m => m.id));
+  }
+
+  if (changes.memories) {
+    const existing = await executor
+      .select()
+      .from(memories)
+      .where(eq(memories.characterId, characterId));
+    const existingById = new Map(existing.map(m => [m.id, m]));
+    const keptIds = new Set(changes.memories.map(m => m.id));
+
+    const experienceRows = existing.length > 0
+      ? await executor
+          .select()
+          .from(experiences)
+          .where(inArray(experiences.memoryId, existing.map(m => m.id)))
+      : [];
+    const experiencesById = new Map(experienceRows.map(row => [row.id, row]));
+
+    for (let position = 0; position < changes.memories.length; position++) {
+      const memory = changes.memories[position];
+      const row = existingById.get(memory.id);
+      const values = {
+        position,
+        title: memory.title,
+        inDiary: memory.inDiary,
+        strikedOut: memory.strikedOut,
+        // Memories keep the diary they were written into, even after it is lost
+        diaryId: !memory.inDiary
+          ? null
+          : diaryId !== undefined && diaryMemoryIds.has(memory.id)
+            ? diaryId
+            : row?.diaryId ?? null,
+      };
+
+      if (!row) {
+        await executor.insert(memories).values({ id: memory.id, characterId, ...values });
+      } else if (!sameRow(row, values)) {
+        await executor.update(memories).set(values).where(eq(memories.id, row.id));
+      }
+    }
+
+    // Experiences are saved once every memory exists, since one may have moved into a new memory
+    for (const memory of changes.memories) {
+      await saveExperiences(executor, memory.id, memory.experiences || [], experiencesById);
+    }
+
+    const removedExperiences = unkeptIds(experiencesById, changes.memories.flatMap(m => m.experiences || []));
+    if (removedExperiences.length > 0) {
+      await executor.delete(experiences).where(inArray(experiences.id, removedExperiences));
+    }
+
+    const removed = existing.filter(m => !keptIds.has(m.id)).map(m => m.id);
+    if (removed.length > 0) {
+      await executor.delete(memories).where(inArray(memories.id, removed));
+    }
+  }
+
+  for (const type of TRAIT_TYPES) {
+    const list = changes[type];
+    if (!list) continue;
+
+    const existing = await executor
+      .select()
+      .from(traits)
+      .where(and(eq(traits.characterId, characterId), eq(traits.type, type)))
+      .orderBy(asc(traits.position));
+    // Older sheets may repeat a name; the first row is the one kept
+    const matched = new Map<string, typeof traits.$inferSelect>();
+    for (const row of existing) {
+      if (!matched.has(row.name) && list.some(trait => trait.name === row.name)) {
+        matched.set(row.name, row);
+      }
+    }
+
+    // Descriptors go with their traits through the cascade
+    const removed = existing.filter(row => matched.get(row.name) !== row).map(row => row.id);
+    if (removed.length > 0) {
+      await executor.delete(traits).where(inArray(traits.id, removed));
+    }
+
+    const descriptorRows = matched.size > 0
+      ? await executor
+          .select()
+          .from(traitDescriptors)
+          .where(inArray(traitDescriptors.traitId, Array.from(matched.values()).map(row => row.id)))
+      : [];
+    const descriptorsById = new Map(descriptorRows.map(row => [row.id, row]));
+
+    for (let position = 0; position < list.length; position++) {
+      const trait = list[position];
+      const row = matched.get(trait.name);
+      matched.delete(trait.name);
+      const values = {
+        position,
+        checked: !!trait.checked,
+        strikedOut: !!trait.strikedOut,
+        stationary: !!trait.stationary,
+        mortality: trait.mortality ?? null,
+        introducedAtTurn: trait.introducedAtTurn ?? null,
+      };
+
+      let traitId: number;
+      if (!row) {
+        const [inserted] = await executor
+          .insert(traits)
+          .values({ characterId, type, name: trait.name, ...values })
+          .returning({ id: traits.id });
+        traitId = inserted.id;
+      } else {
+        if (!sameRow(row, values)) {
+          await executor.update(traits).set(values).where(eq(traits.id, row.id));
+        }
+        traitId = row.id;
+      }
+
+      await saveDescriptors(executor, traitId, trait.descriptors || [], descriptorsById);
+    }
+
+    const removedDescriptors = unkeptIds(descriptorsById, list.flatMap(t => t.descriptors || []));
+    if (removedDescriptors.length > 0) {
+      await executor.delete(traitDescriptors).where(inArray(traitDescriptors.id, removedDescriptors));
+    }
+  }
+}
+
+// Prompts the character has answered; diary consultations are not turns
+export async function countPromptsAnswered(executor: Executor, characterId: number): Promise<number> {
+  const [{ answered }] = await executor
+    .select({ answered: count() })
+    .from(promptHistory)
+    .where(and(eq(promptHistory.characterId, characterId), eq(promptHistory.kind, "prompt")));
+  return answered;
+}
+
+export type CharacterChanges = Partial<CharacterSheet> &
+  Partial<Omit<typeof characters.$inferInsert, "id" | "userId" | "createdAt" | "updatedAt">>;
+
+// Saves sheet and column changes together, bumps updatedAt and returns the
+// character as the API shows it
+export async function saveCharacter(
+  executor: Executor,
+  characterId: number,
+  changes: CharacterChanges
+): Promise<Character> {
+  const { memories: memoryList, skills, resources, relationships, marks, diary, ...columns } = changes;
+  await saveSheet(executor, characterId, { memories: memoryList, skills, resources, relationships, marks, diary });
+
+  const [row] = await executor
+    .update(characters)
+    .set({
+      ...columns,
+      updatedAt: new Date(),
+    })
+    .where(eq(characters.id, characterId))
+    .returning();
+
+  return withSheet(executor, row);
+}
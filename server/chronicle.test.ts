@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { CharacterEvent, CharacterEventType, Era, PromptHistory } from "@db/schema";
+import { buildChronicle } from "./chronicle";
+
+function era(id: number, startsAt: string): Era {
+  return { id, characterId: 1, name: `Era ${id}`, description: null, startsAt: new Date(startsAt), createdAt: new Date(startsAt) };
+}
+
+function entry(id: number, createdAt: string): PromptHistory & { promptContent: string | null } {
+  return {
+    id,
+    characterId: 1,
+    promptId: 1,
+    promptNumber: id,
+    promptLetter: "a",
+    kind: "prompt",
+    diceRoll: null,
+    response: `Response ${id}`,
+    diaryMemoryId: null,
+    year: null,
+    undoState: null,
+    memoryPending: false,
+    createdAt: new Date(createdAt),
+    promptContent: "A prompt",
+  };
+}
+
+function event(id: number, type: CharacterEventType, createdAt: string, promptHistoryId: number | null = null): CharacterEvent {
+  return { id, characterId: 1, type, summary: `Event ${id}`, details: {}, promptHistoryId, createdAt: new Date(createdAt) };
+}
+
+describe("buildChronicle", () => {
+  it("interleaves responses and events in the order they happened", () => {
+    const sections = buildChronicle(
+      [],
+      [entry(1, "2024-01-02T00:00:00Z")],
+      [event(1, "trait_added", "2024-01-01T00:00:00Z"), event(2, "memory_forgotten", "2024-01-03T00:00:00Z")]
+    );
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].items.map(item => item.type)).toEqual(["event", "response", "event"]);
+  });
+
+  it("attaches a turn's events to its response and hides bookkeeping", () => {
+    const sections = buildChronicle(
+      [],
+      [entry(1, "2024-01-02T00:00:00Z")],
+      [
+        event(1, "prompt_answered", "2024-01-02T00:00:00Z", 1),
+        event(2, "trait_checked", "2024-01-02T00:00:00Z", 1),
+        event(3, "memories_reordered", "2024-01-03T00:00:00Z"),
+      ]
+    );
+
+    const [item] = sections[0].items;
+    expect(sections[0].items).toHaveLength(1);
+    expect(item.type === "response" && item.events.map(e => e.id)).toEqual([2]);
+  });
+
+  it("shows events whose turn has been undone on their own", () => {
+    const sections = buildChronicle([], [], [event(1, "prompt_undone", "2024-01-02T00:00:00Z", 9)]);
+    expect(sections[0].items.map(item => item.type)).toEqual(["event"]);
+  });
+
+  it("splits items into eras and keeps empty eras", () => {
+    const sections = buildChronicle(
+      [era(2, "2024-02-01T00:00:00Z"), era(1, "2024-01-01T00:00:00Z"), era(3, "2024-03-01T00:00:00Z")],
+      [entry(1, "2024-01-15T00:00:00Z"), entry(2, "2024-02-15T00:00:00Z")],
+      []
+    );
+
+    expect(sections.map(section => [section.era?.id, section.items.length])).toEqual([[1, 1], [2, 1], [3, 0]]);
+  });
+
+  it("shows the time before the first era only when something happened in it", () => {
+    const sections = buildChronicle(
+      [era(1, "2024-02-01T00:00:00Z")],
+      [entry(1, "2024-01-15T00:00:00Z")],
+      []
+    );
+
+    expect(sections.map(section => section.era?.id ?? null)).toEqual([null, 1]);
+  });
+});
@@ -0,0 +1,65 @@
+import type {
+  CharacterEvent,
+  CharacterEventType,
+  ChronicleItem,
+  ChronicleSection,
+  Era,
+  PromptHistory,
+} from "@db/schema";
+import { eraAt } from "@db/rules";
+
+// Bookkeeping events that say nothing about the vampire's story. Answered
+// prompts and diary consultations are shown through their history entries.
+const HIDDEN_EVENTS: CharacterEventType[] = [
+  "prompt_answered",
+  "diary_consulted",
+  "memories_reordered",
+  "experiences_reordered",
+  "response_edited",
+  "era_created",
+  "era_updated",
+  "era_deleted",
+];
+
+export function isChronicleEvent(event: CharacterEvent) {
+  return !HIDDEN_EVENTS.includes(event.type);
+}
+
+// Interleaves history and events in the order they happened and splits them
+// into eras. Each item belongs to the last era that started at or before it.
+export function buildChronicle(
+  eras: Era[],
+  history: (PromptHistory & { promptContent: string | null })[],
+  events: CharacterEvent[]
+): ChronicleSection[] {
+  const historyIds = new Set(history.map(entry => entry.id));
+  const storyEvents = events.filter(isChronicleEvent);
+
+  const items: ChronicleItem[] = [
+    ...history.map(entry => ({
+      type: "response" as const,
+      at: entry.createdAt,
+      entry,
+      events: storyEvents.filter(event => event.promptHistoryId === entry.id),
+    })),
+    ...storyEvents
+      .filter(event => event.promptHistoryId === null || !historyIds.has(event.promptHistoryId))
+      .map(event => ({ type: "event" as const, at: event.createdAt, event })),
+  ];
+  items.sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const sortedEras = [...eras].sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  const sections: ChronicleSection[] = [
+    { era: null, items: [] },
+    ...sortedEras.map(era => ({ era, items: [] as ChronicleItem[] })),
+  ];
+
+  for (const item of items) {
+    const era = eraAt(sortedEras, item.at);
+    sections.find(section => section.era === era)!.items.push(item);
+  }
+
+  // An empty era is still shown so the player can see where it begins; the
+  // time before the first era is only shown if something happened in it
+  return sections.filter(section => section.era !== null || section.items.length > 0);
+}
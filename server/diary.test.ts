@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { Memory } from "@db/schema";
+import { loseDiary, moveMemoryToDiary, restoresLostDiary, type DiaryState } from "./diary";
+import { updateTrait } from "./traits";
+
+function memory(id: string): Memory {
+  return {
+    id,
+    title: `Memory ${id}`,
+    experiences: [{ text: "An experience", createdAt: "2024-01-01T00:00:00.000Z" }],
+    inDiary: false,
+    strikedOut: false,
+  };
+}
+
+// A character with one memory written into a diary named "Letters"
+function withDiary(): DiaryState {
+  const moved = moveMemoryToDiary(
+    { memories: [memory("a"), memory("b")], resources: [{ name: "Gold" }], diary: null },
+    "a",
+    "Letters"
+  );
+  if (!moved.ok) throw new Error(moved.error);
+  return moved.state;
+}
+
+function withLostDiary(): DiaryState {
+  const lost = loseDiary(withDiary());
+  if (!lost.ok) throw new Error(lost.error);
+  return lost.state;
+}
+
+describe("loseDiary", () => {
+  it("strikes out the Resource and every memory in the diary", () => {
+    const state = withLostDiary();
+    expect(state.diary?.lost).toBe(true);
+    expect(state.resources.find(r => r.name === "Diary: Letters")?.strikedOut).toBe(true);
+    expect(state.memories.find(m => m.id === "a")?.strikedOut).toBe(true);
+    expect(state.memories.find(m => m.id === "b")?.strikedOut).toBe(false);
+  });
+});
+
+describe("restoresLostDiary", () => {
+  it("flags restoring the Resource of a lost diary", () => {
+    const state = withLostDiary();
+    const restored = updateTrait(state.resources, "Diary: Letters", { strikedOut: false });
+    if (!restored.ok) throw new Error(restored.error);
+
+    expect(restoresLostDiary(state, restored.traits)).toBe(true);
+  });
+
+  it("allows restoring other Resources while the diary is lost", () => {
+    const state = withLostDiary();
+    const lostGold = { ...state, resources: state.resources.map(r => r.name === "Gold" ? { ...r, strikedOut: true } : r) };
+    const restored = updateTrait(lostGold.resources, "Gold", { strikedOut: false });
+    if (!restored.ok) throw new Error(restored.error);
+
+    expect(restoresLostDiary(lostGold, restored.traits)).toBe(false);
+  });
+
+  it("allows other edits to the Resources of a character with a lost diary", () => {
+    const state = withLostDiary();
+    expect(restoresLostDiary(state, [...state.resources, { name: "Horse" }])).toBe(false);
+  });
+
+  it("does nothing while the diary is kept", () => {
+    const state = withDiary();
+    expect(restoresLostDiary(state, state.resources)).toBe(false);
+  });
+});
+
+describe("moveMemoryToDiary", () => {
+  it("refuses a name already taken by the Resource of a lost diary", () => {
+    const result = moveMemoryToDiary(withLostDiary(), "b", "Letters");
+    expect(result.ok).toBe(false);
+  });
+
+  it("starts a new diary under a new name once the old one is lost", () => {
+    const result = moveMemoryToDiary(withLostDiary(), "b", "Journal");
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.state.diary?.resourceName).toBe("Diary: Journal");
+    expect(result.state.resources.map(r => r.name)).toEqual(["Gold", "Diary: Letters", "Diary: Journal"]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { Diary, Memory, Trait } from "@db/schema";
+import { hasActiveDiary, isActiveMemory, MAX_DIARY_MEMORIES } from "@db/rules";
+
+// The parts of a character the diary rules read and write. Every helper here is
+// pure: it returns the new state and leaves saving it to the caller.
+export type DiaryState = {
+  memories: Memory[];
+  resources: Trait[];
+  diary: Diary | null;
+};
+
+export type DiaryResult =
+  | { ok: true; state: DiaryState }
+  | { ok: false; error: string };
+
+export function diaryResourceName(name: string): string {
+  return `Diary: ${name}`;
+}
+
+// Writes an active memory into the diary, starting a new diary (and its
+// Resource) when the character has none or the last one was lost
+export function moveMemoryToDiary(state: DiaryState, memoryId: string, diaryName?: string): DiaryResult {
+  const memory = state.memories.find(m => m.id === memoryId);
+  if (!memory) {
+    return { ok: false, error: "Memory not found" };
+  }
+  if (!isActiveMemory(memory)) {
+    return { ok: false, error: "Only an active memory can be moved to the diary" };
+  }
+
+  let diary = state.diary;
+  let resources = state.resources;
+
+  if (!hasActiveDiary(diary)) {
+    const name = diaryName?.trim();
+    if (!name) {
+      return { ok: false, error: "A diary name is required to start a diary" };
+    }
+    // The diary is found by its Resource's name, so that name must not be taken,
+    // not even by the struck-out Resource of a lost diary
+    const resourceName = diaryResourceName(name);
+    if (resources.some(r => r.name === resourceName)) {
+      return { ok: false, error: `There is already a Resource called "${resourceName}"; give the diary another name` };
+    }
+    diary = {
+      name,
+      resourceName,
+      memories: [],
+      lost: false,
+      createdAt: new Date().toISOString(),
+    };
+    resources = [...resources, { name: diary.resourceName }];
+  } else if (diary.memories.length >= MAX_DIARY_MEMORIES) {
+    return { ok: false, error: `The diary is full; it can hold at most ${MAX_DIARY_MEMORIES} memories` };
+  }
+
+  return {
+    ok: true,
+    state: {
+      resources,
+      memories: state.memories.map(m => m.id === memoryId ? { ...m, inDiary: true } : m),
+      diary: { ...diary, memories: [...diary.memories, { ...memory, inDiary: true }] },
+    },
+  };
+}
+
+// Losing the diary loses everything written in it: the Resource is struck out
+// and every memory it held is struck out with it
+export function loseDiary(state: DiaryState): DiaryResult {
+  const diary = state.diary;
+  if (!hasActiveDiary(diary)) {
+    return { ok: false, error: "There is no diary to lose" };
+  }
+
+  const lostIds = new Set(diary.memories.map(m => m.id));
+
+  return {
+    ok: true,
+    state: {
+      resources: state.resources.map(r => r.name === diary.resourceName ? { ...r, strikedOut: true } : r),
+      memories: state.memories.map(m => lostIds.has(m.id) ? { ...m, strikedOut: true } : m),
+      diary: {
+        ...diary,
+        lost: true,
+        memories: diary.memories.map(m => ({ ...m, strikedOut: true })),
+      },
+    },
+  };
+}
+
+// Striking out the diary's Resource on the character sheet is the same as losing it
+export function applyDiaryResourceLoss(state: DiaryState): DiaryState {
+  const diary = state.diary;
+  if (!hasActiveDiary(diary)) return state;
+
+  const resource = state.resources.find(r => r.name === diary.resourceName);
+  if (resource && !resource.strikedOut) return state;
+
+  const result = loseDiary(state);
+  return result.ok ? result.state : state;
+}
+
+// A lost diary stays lost: un-striking its Resource would leave the memories
+// lost with it struck out, so the Resource cannot be restored on its own
+export function restoresLostDiary(state: DiaryState, resources: Trait[]): boolean {
+  const diary = state.diary;
+  if (!diary?.lost) return false;
+
+  const before = state.resources.find(r => r.name === diary.resourceName);
+  const after = resources.find(r => r.name === diary.resourceName);
+  return !!before?.strikedOut && !!after && !after.strikedOut;
+}
+
+// Takes a memory back out of the diary, used when undoing the turn that wrote it there
+export function removeMemoryFromDiary(state: DiaryState, memoryId: string): DiaryState {
+  return {
+    ...state,
+    memories: state.memories.map(m => m.id === memoryId ? { ...m, inDiary: false } : m),
+    diary: state.diary
+      ? { ...state.diary, memories: state.diary.memories.filter(m => m.id !== memoryId) }
+      : null,
+  };
+}
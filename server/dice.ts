@@ -0,0 +1,37 @@
+import { createHmac, randomBytes } from "crypto";
+import type { DiceRoll } from "./prompt-engine";
+
+// Server-owned dice. Each roll is derived from a random seed and a per-character
+// nonce with HMAC-SHA256, and both are stored in the roll log, so any logged
+// roll can be recomputed later to check it was not tampered with.
+
+export type SeededRoll = DiceRoll & {
+  seed: string;
+  nonce: number;
+};
+
+export function deriveDice(seed: string, nonce: number): DiceRoll {
+  const digest = createHmac("sha256", seed).update(String(nonce)).digest();
+  return {
+    d10: (digest.readUInt32BE(0) % 10) + 1,
+    d6: (digest.readUInt32BE(4) % 6) + 1,
+  };
+}
+
+export function rollDice(nonce: number): SeededRoll {
+  const seed = randomBytes(16).toString("hex");
+  return { ...deriveDice(seed, nonce), seed, nonce };
+}
+
+export function verifyRoll(roll: SeededRoll): boolean {
+  const expected = deriveDice(roll.seed, roll.nonce);
+  return expected.d10 === roll.d10 && expected.d6 === roll.d6;
+}
+
+// Manual rolls come from physical dice, so only their range can be checked
+export function isValidManualRoll(roll: unknown): roll is DiceRoll {
+  if (typeof roll !== "object" || roll === null) return false;
+  const { d10, d6 } = roll as Record<string, unknown>;
+  return typeof d10 === "number" && Number.isInteger(d10) && d10 >= 1 && d10 <= 10 &&
+    typeof d6 === "number" && Number.isInteger(d6) && d6 >= 1 && d6 <= 6;
+}
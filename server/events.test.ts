@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { CharacterSheet, Memory } from "@db/schema";
+import { sheetEvents } from "./events";
+
+const CREATED_AT = "2024-01-01T00:00:00.000Z";
+
+function sheet(fields: Partial<CharacterSheet> = {}): CharacterSheet {
+  return { memories: [], skills: [], resources: [], relationships: [], marks: [], diary: null, ...fields };
+}
+
+function memory(id: string, experiences: { id?: number; text: string }[]): Memory {
+  return {
+    id,
+    title: `Memory ${id}`,
+    experiences: experiences.map(exp => ({ ...exp, createdAt: CREATED_AT })),
+    inDiary: false,
+    strikedOut: false,
+  };
+}
+
+function types(before: CharacterSheet, changes: Partial<CharacterSheet>) {
+  return sheetEvents(before, changes).map(event => event.type);
+}
+
+describe("sheetEvents", () => {
+  it("logs trait changes", () => {
+    const before = sheet({ skills: [{ name: "Swordplay" }, { name: "Riding", checked: true }] });
+    expect(types(before, { skills: [{ name: "Swordplay", checked: true }, { name: "Latin" }] })).toEqual([
+      "trait_checked",
+      "trait_added",
+      "trait_removed",
+    ]);
+  });
+
+  it("logs losing, restoring and marking a Character", () => {
+    const before = sheet({ relationships: [{ name: "Agnes" }, { name: "Bertram", strikedOut: true }] });
+    const events = sheetEvents(before, {
+      relationships: [{ name: "Agnes", strikedOut: true, mortality: "mortal" }, { name: "Bertram" }],
+    });
+    expect(events.map(event => event.summary)).toEqual([
+      "Lost Character: Agnes",
+      "Marked Character Agnes as mortal",
+      "Restored Character: Bertram",
+    ]);
+  });
+
+  it("logs descriptors that have no saved row yet", () => {
+    const saved = { id: 1, text: "Loyal", createdAt: CREATED_AT };
+    const before = sheet({ relationships: [{ name: "Agnes", descriptors: [saved] }] });
+    const events = sheetEvents(before, {
+      relationships: [{ name: "Agnes", descriptors: [saved, { text: "Loyal", createdAt: CREATED_AT }] }],
+    });
+    expect(events.map(event => event.type)).toEqual(["trait_described"]);
+  });
+
+  it("leaves out parts of the sheet that are not in the changes", () => {
+    expect(sheetEvents(sheet({ skills: [{ name: "Swordplay" }] }), {})).toEqual([]);
+  });
+
+  it("logs a new memory without logging its first experience", () => {
+    expect(types(sheet(), { memories: [memory("a", [{ text: "First" }])] })).toEqual(["memory_created"]);
+  });
+
+  it("logs forgetting a memory", () => {
+    const before = sheet({ memories: [memory("a", [{ id: 1, text: "First" }])] });
+    expect(types(before, { memories: [{ ...before.memories[0], strikedOut: true }] })).toEqual(["memory_forgotten"]);
+  });
+
+  it("tells experiences with the same text and time apart by row id", () => {
+    const before = sheet({
+      memories: [memory("a", [{ id: 1, text: "Same" }, { id: 2, text: "Same" }]), memory("b", [])],
+    });
+    const events = sheetEvents(before, {
+      memories: [memory("a", [{ id: 1, text: "Same" }]), memory("b", [{ id: 2, text: "Same" }])],
+    });
+    expect(events.map(event => event.type)).toEqual(["experience_moved"]);
+    expect(events[0].details).toMatchObject({ fromMemoryId: "a", toMemoryId: "b" });
+  });
+
+  it("logs an unsaved experience as added and a missing one as removed", () => {
+    const before = sheet({ memories: [memory("a", [{ id: 1, text: "Old" }])] });
+    expect(types(before, { memories: [memory("a", [{ text: "New" }])] })).toEqual([
+      "experience_added",
+      "experience_removed",
+    ]);
+  });
+
+  it("logs edited and reordered experiences", () => {
+    const before = sheet({ memories: [memory("a", [{ id: 1, text: "One" }, { id: 2, text: "Two" }])] });
+    expect(types(before, { memories: [memory("a", [{ id: 2, text: "Two" }, { id: 1, text: "One, again" }])] })).toEqual([
+      "experience_edited",
+      "experiences_reordered",
+    ]);
+  });
+
+  it("logs starting and losing a diary", () => {
+    const diary = {
+      id: 3,
+      name: "Letters",
+      resourceName: "Diary: Letters",
+      memories: [memory("a", [{ id: 1, text: "First" }])],
+      lost: false,
+      createdAt: CREATED_AT,
+    };
+    expect(types(sheet(), { diary: { ...diary, id: undefined } })).toEqual(["diary_started"]);
+    expect(types(sheet({ diary }), { diary: { ...diary, lost: true } })).toEqual(["diary_lost"]);
+  });
+});
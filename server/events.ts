@@ -0,0 +1,233 @@
+import {
+  characterEvents,
+  type CharacterEventDetails,
+  type CharacterEventType,
+  type CharacterSheet,
+  type Experience,
+  type Memory,
+  type Trait,
+  type TraitType,
+} from "@db/schema";
+import type { Executor } from "./character-store";
+import { TRAIT_TYPES } from "./traits";
+
+// The character event log: every mutating route appends what it changed so
+// players can see when a skill was checked or a memory forgotten.
+export type NewCharacterEvent = {
+  type: CharacterEventType;
+  summary: string;
+  details?: CharacterEventDetails;
+};
+
+// Singular names as the character sheet shows them
+const TRAIT_LABELS: Record<TraitType, string> = {
+  skills: "Skill",
+  resources: "Resource",
+  relationships: "Character",
+  marks: "Mark",
+};
+
+function traitEvents(type: TraitType, before: Trait[], after: Trait[]): NewCharacterEvent[] {
+  const label = TRAIT_LABELS[type];
+  const events: NewCharacterEvent[] = [];
+  const event = (eventType: CharacterEventType, summary: string, name: string) =>
+    events.push({ type: eventType, summary, details: { traitType: type, name } });
+
+  for (const trait of after) {
+    const old = before.find(t => t.name === trait.name);
+    if (!old) {
+      event("trait_added", `Added ${label}: ${trait.name}`, trait.name);
+      continue;
+    }
+    if (!old.checked && trait.checked) event("trait_checked", `Checked ${label}: ${trait.name}`, trait.name);
+    if (old.checked && !trait.checked) event("trait_unchecked", `Unchecked ${label}: ${trait.name}`, trait.name);
+    if (!old.strikedOut && trait.strikedOut) event("trait_struck", `Lost ${label}: ${trait.name}`, trait.name);
+    if (old.strikedOut && !trait.strikedOut) event("trait_restored", `Restored ${label}: ${trait.name}`, trait.name);
+    if (trait.mortality && old.mortality !== trait.mortality) {
+      event("trait_mortality_set", `Marked ${label} ${trait.name} as ${trait.mortality}`, trait.name);
+    }
+    for (const descriptor of trait.descriptors || []) {
+      // Descriptors are never edited, so one without a saved row id is new
+      if (descriptor.id === undefined || !(old.descriptors || []).some(d => d.id === descriptor.id)) {
+        events.push({
+          type: "trait_described",
+          summary: `Described ${label} ${trait.name}: ${descriptor.text}`,
+          details: { traitType: type, name: trait.name, text: descriptor.text },
+        });
+      }
+    }
+  }
+  for (const trait of before) {
+    if (!after.some(t => t.name === trait.name)) {
+      event("trait_removed", `Removed ${label}: ${trait.name}`, trait.name);
+    }
+  }
+
+  return events;
+}
+
+// Saved experiences are told apart by their row id. One without an id has not
+// been saved yet, so it is new and gets a key of its own.
+type ExperienceLocation = { memory: Memory; index: number; text: string };
+
+function experienceKey(memory: Memory, exp: Experience, index: number) {
+  return exp.id !== undefined ? String(exp.id) : `new:${memory.id}:${index}`;
+}
+
+function locateExperiences(memories: Memory[]) {
+  const locations = new Map<string, ExperienceLocation>();
+  for (const memory of memories) {
+    (memory.experiences || []).forEach((exp, index) =>
+      locations.set(experienceKey(memory, exp, index), { memory, index, text: exp.text })
+    );
+  }
+  return locations;
+}
+
+// True when the ids both lists share are in a different order
+function orderChanged(before: string[], after: string[]) {
+  const shared = before.filter(id => after.includes(id));
+  const sharedAfter = after.filter(id => shared.includes(id));
+  return shared.some((id, i) => sharedAfter[i] !== id);
+}
+
+function memoryEvents(before: Memory[], after: Memory[]): NewCharacterEvent[] {
+  const events: NewCharacterEvent[] = [];
+  const details = (memory: Memory) => ({ memoryId: memory.id, title: memory.title });
+
+  for (const memory of after) {
+    const old = before.find(m => m.id === memory.id);
+    if (!old) {
+      events.push({ type: "memory_created", summary: `Created memory "${memory.title}"`, details: details(memory) });
+      continue;
+    }
+    if (old.title !== memory.title) {
+      events.push({
+        type: "memory_renamed",
+        summary: `Renamed memory "${old.title}" to "${memory.title}"`,
+        details: { ...details(memory), previousTitle: old.title },
+      });
+    }
+    if (!old.inDiary && memory.inDiary) {
+      events.push({ type: "memory_diaried", summary: `Wrote "${memory.title}" into the diary`, details: details(memory) });
+    }
+    // Diary memories are struck out when the diary is lost, which has its own event
+    if (!old.strikedOut && memory.strikedOut && !memory.inDiary) {
+      events.push({ type: "memory_forgotten", summary: `Forgot "${memory.title}"`, details: details(memory) });
+    }
+    if (old.strikedOut && !memory.strikedOut) {
+      events.push({ type: "memory_remembered", summary: `Remembered "${memory.title}" again`, details: details(memory) });
+    }
+  }
+  for (const memory of before) {
+    if (!after.some(m => m.id === memory.id)) {
+      events.push({ type: "memory_deleted", summary: `Deleted memory "${memory.title}"`, details: details(memory) });
+    }
+  }
+
+  if (orderChanged(before.map(m => m.id), after.map(m => m.id))) {
+    events.push({ type: "memories_reordered", summary: "Reordered memories" });
+  }
+
+  const beforeExperiences = locateExperiences(before);
+  const afterExperiences = locateExperiences(after);
+
+  afterExperiences.forEach((location, key) => {
+    const old = beforeExperiences.get(key);
+    const memory = location.memory;
+    if (!old) {
+      // A new memory's first experiences are part of creating it
+      if (before.some(m => m.id === memory.id)) {
+        events.push({
+          type: "experience_added",
+          summary: `Added an experience to "${memory.title}"`,
+          details: { ...details(memory), text: location.text },
+        });
+      }
+      return;
+    }
+    if (old.memory.id !== memory.id) {
+      events.push({
+        type: "experience_moved",
+        summary: `Moved an experience from "${old.memory.title}" to "${memory.title}"`,
+        details: { fromMemoryId: old.memory.id, toMemoryId: memory.id, text: location.text },
+      });
+    } else if (old.text !== location.text) {
+      events.push({
+        type: "experience_edited",
+        summary: `Edited an experience in "${memory.title}"`,
+        details: { ...details(memory), text: location.text },
+      });
+    }
+  });
+
+  beforeExperiences.forEach((location, key) => {
+    // Experiences of a deleted memory go with it
+    if (!afterExperiences.has(key) && after.some(m => m.id === location.memory.id)) {
+      events.push({
+        type: "experience_removed",
+        summary: `Removed an experience from "${location.memory.title}"`,
+        details: { ...details(location.memory), text: location.text },
+      });
+    }
+  });
+
+  for (const memory of after) {
+    const old = before.find(m => m.id === memory.id);
+    if (!old) continue;
+    const keys = (list: Memory) => (list.experiences || []).map((exp, index) => experienceKey(list, exp, index));
+    if (orderChanged(keys(old), keys(memory))) {
+      events.push({ type: "experiences_reordered", summary: `Reordered the experiences of "${memory.title}"`, details: details(memory) });
+    }
+  }
+
+  return events;
+}
+
+// Describes how changes would alter the sheet in before. Parts of the sheet
+// missing from changes are unchanged.
+export function sheetEvents(before: CharacterSheet, changes: Partial<CharacterSheet>): NewCharacterEvent[] {
+  const events: NewCharacterEvent[] = [];
+
+  if (changes.diary) {
+    const diary = changes.diary;
+    if (!diary.id || diary.id !== before.diary?.id) {
+      events.push({ type: "diary_started", summary: `Started a diary: ${diary.name}`, details: { name: diary.name } });
+    }
+    if (diary.lost && !(before.diary?.id === diary.id && before.diary?.lost)) {
+      events.push({
+        type: "diary_lost",
+        summary: `Lost the diary "${diary.name}" and the ${diary.memories.length} memories in it`,
+        details: { name: diary.name },
+      });
+    }
+  }
+
+  if (changes.memories) {
+    events.push(...memoryEvents(before.memories, changes.memories));
+  }
+
+  for (const type of TRAIT_TYPES) {
+    const list = changes[type];
+    if (list) events.push(...traitEvents(type, before[type], list));
+  }
+
+  return events;
+}
+
+export async function recordEvents(
+  executor: Executor,
+  characterId: number,
+  events: NewCharacterEvent[],
+  promptHistoryId: number | null = null
+) {
+  if (events.length === 0) return;
+
+  await executor.insert(characterEvents).values(events.map(event => ({
+    characterId,
+    type: event.type,
+    summary: event.summary,
+    details: event.details || {},
+    promptHistoryId,
+  })));
+}
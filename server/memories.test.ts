@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import type { Memory } from "@db/schema";
+import { MAX_ACTIVE_MEMORIES, MAX_EXPERIENCES_PER_MEMORY } from "@db/rules";
+import { addExperience, createMemory, forgetMemory, moveExperience, removeTurnExperience } from "./memories";
+
+function memory(id: string, texts: string[] = ["An experience"], fields: Partial<Memory> = {}): Memory {
+  return {
+    id,
+    title: `Memory ${id}`,
+    experiences: texts.map(text => ({ text, createdAt: "2024-01-01T00:00:00.000Z" })),
+    inDiary: false,
+    strikedOut: false,
+    ...fields,
+  };
+}
+
+function texts(memories: Memory[], id: string) {
+  return memories.find(m => m.id === id)?.experiences.map(exp => exp.text);
+}
+
+describe("createMemory", () => {
+  it("adds a memory holding its first experience", () => {
+    const result = createMemory([memory("a")], "  The first kill  ", "Hunger", 1350);
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.memories).toHaveLength(2);
+    const created = result.memories[1];
+    expect(created.title).toBe("Hunger");
+    expect(created.experiences.map(exp => [exp.text, exp.year])).toEqual([["The first kill", 1350]]);
+    expect(created.id).not.toBe("a");
+  });
+
+  it("names an untitled memory after its place on the list", () => {
+    const result = createMemory([memory("a")], "Something");
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.memories[1].title).toBe("Memory 2");
+  });
+
+  it("refuses a memory without an experience", () => {
+    expect(createMemory([], "   ").ok).toBe(false);
+  });
+
+  it("refuses a memory past the limit, counting only those still held", () => {
+    const full = Array.from({ length: MAX_ACTIVE_MEMORIES }, (_, i) => memory(String(i)));
+    expect(createMemory(full, "One too many").ok).toBe(false);
+
+    const oneForgotten = full.map((m, i) => i === 0 ? { ...m, strikedOut: true } : m);
+    expect(createMemory(oneForgotten, "Room again").ok).toBe(true);
+  });
+});
+
+describe("addExperience", () => {
+  it("appends the experience with the prompt it came from", () => {
+    const result = addExperience([memory("a")], "a", "A second night", undefined, { promptHistoryId: 7 });
+    if (!result.ok) throw new Error(result.error);
+
+    const experiences = result.memories[0].experiences;
+    expect(experiences.map(exp => exp.text)).toEqual(["An experience", "A second night"]);
+    expect(experiences[1].promptHistoryId).toBe(7);
+  });
+
+  it("refuses a memory that is full or no longer held", () => {
+    const full = memory("a", Array.from({ length: MAX_EXPERIENCES_PER_MEMORY }, (_, i) => `Experience ${i}`));
+    expect(addExperience([full], "a", "More").ok).toBe(false);
+    expect(addExperience([memory("a", ["x"], { strikedOut: true })], "a", "More").ok).toBe(false);
+    expect(addExperience([memory("a", ["x"], { inDiary: true })], "a", "More").ok).toBe(false);
+  });
+
+  it("refuses an empty experience or an unknown memory", () => {
+    expect(addExperience([memory("a")], "a", " ").ok).toBe(false);
+    expect(addExperience([memory("a")], "b", "Text").ok).toBe(false);
+  });
+});
+
+describe("moveExperience", () => {
+  it("moves an experience to the end of another memory", () => {
+    const result = moveExperience([memory("a", ["one", "two"]), memory("b", ["three"])], "a", 0, "b");
+    if (!result.ok) throw new Error(result.error);
+
+    expect(texts(result.memories, "a")).toEqual(["two"]);
+    expect(texts(result.memories, "b")).toEqual(["three", "one"]);
+  });
+
+  it("inserts at the given index", () => {
+    const result = moveExperience([memory("a", ["one"]), memory("b", ["two", "three"])], "a", 0, "b", 1);
+    if (!result.ok) throw new Error(result.error);
+
+    expect(texts(result.memories, "b")).toEqual(["two", "one", "three"]);
+  });
+
+  it("moves within one memory", () => {
+    const result = moveExperience([memory("a", ["one", "two", "three"])], "a", 0, "a", 2);
+    if (!result.ok) throw new Error(result.error);
+
+    expect(texts(result.memories, "a")).toEqual(["two", "three", "one"]);
+  });
+
+  it("refuses a full target or one no longer held", () => {
+    const full = memory("b", Array.from({ length: MAX_EXPERIENCES_PER_MEMORY }, (_, i) => `Experience ${i}`));
+    expect(moveExperience([memory("a"), full], "a", 0, "b").ok).toBe(false);
+    expect(moveExperience([memory("a"), memory("b", ["x"], { strikedOut: true })], "a", 0, "b").ok).toBe(false);
+  });
+
+  it("refuses an experience that does not exist", () => {
+    expect(moveExperience([memory("a"), memory("b")], "a", 3, "b").ok).toBe(false);
+  });
+});
+
+describe("forgetMemory", () => {
+  it("strikes the memory out and keeps it on the sheet", () => {
+    const result = forgetMemory([memory("a"), memory("b")], "a");
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.memories.map(m => [m.id, m.strikedOut])).toEqual([["a", true], ["b", false]]);
+  });
+
+  it("refuses a memory already forgotten or in the diary", () => {
+    expect(forgetMemory([memory("a", ["x"], { strikedOut: true })], "a").ok).toBe(false);
+    expect(forgetMemory([memory("a", ["x"], { inDiary: true })], "a").ok).toBe(false);
+    expect(forgetMemory([memory("a")], "b").ok).toBe(false);
+  });
+});
+
+describe("removeTurnExperience", () => {
+  const isTurn = (exp: { promptHistoryId?: number }) => exp.promptHistoryId === 7;
+
+  it("removes the turn's experience wherever it was moved", () => {
+    const moved = memory("b", ["kept"]);
+    moved.experiences.push({ text: "from the turn", createdAt: "2024-01-02T00:00:00.000Z", promptHistoryId: 7 });
+
+    const memories = removeTurnExperience([memory("a"), moved], isTurn);
+    expect(texts(memories, "b")).toEqual(["kept"]);
+  });
+
+  it("removes a memory the turn created once it is empty", () => {
+    const created = memory("b", []);
+    created.experiences.push({ text: "from the turn", createdAt: "2024-01-02T00:00:00.000Z", promptHistoryId: 7 });
+
+    const memories = removeTurnExperience([memory("a"), created], isTurn, "b");
+    expect(memories.map(m => m.id)).toEqual(["a"]);
+  });
+
+  it("keeps a created memory the player has added to since", () => {
+    const created = memory("b", ["added later"]);
+    created.experiences.unshift({ text: "from the turn", createdAt: "2024-01-02T00:00:00.000Z", promptHistoryId: 7 });
+
+    const memories = removeTurnExperience([memory("a"), created], isTurn, "b");
+    expect(texts(memories, "b")).toEqual(["added later"]);
+  });
+});
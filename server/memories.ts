@@ -0,0 +1,262 @@
+import { nanoid } from "nanoid";
+import type { Experience, Memory } from "@db/schema";
+import { canAddExperience, canCreateMemory, isActiveMemory, MAX_ACTIVE_MEMORIES } from "@db/rules";
+
+// Pure edits to a character's memory list used by the memory routes. Each
+// returns the new list, or the reason the edit breaks the rules.
+export type MemoryResult =
+  | { ok: true; memories: Memory[] }
+  | { ok: false; error: string };
+
+// Memory ids are always generated here, never taken from the client
+export function newMemoryId(): string {
+  return nanoid();
+}
+
+// The prompt turn an experience was written in, when it came from one
+export type ExperienceSource = Pick<Experience, "promptHistoryId" | "promptNumber" | "promptLetter">;
+
+function newExperience(text: string, year?: number | null, source: ExperienceSource = {}): Experience {
+  return {
+    text: text.trim(),
+    createdAt: new Date().toISOString(),
+    ...source,
+    ...(year !== undefined && year !== null && { year }),
+  };
+}
+
+// True when order lists every index from 0 to length - 1 exactly once
+function isPermutation(order: unknown[], length: number): boolean {
+  return order.length === length &&
+    new Set(order).size === length &&
+    order.every(i => Number.isInteger(i) && (i as number) >= 0 && (i as number) < length);
+}
+
+// year is the in-game year the first experience happened in, if known
+export function createMemory(memories: Memory[], text: string, title?: string, year?: number | null): MemoryResult {
+  if (!text.trim()) {
+    return { ok: false, error: "A memory starts with an experience" };
+  }
+  if (!canCreateMemory(memories)) {
+    return { ok: false, error: `A vampire can hold at most ${MAX_ACTIVE_MEMORIES} memories; forget one or move it to a diary first` };
+  }
+
+  const memory: Memory = {
+    id: newMemoryId(),
+    title: title?.trim() || `Memory ${memories.length + 1}`,
+    experiences: [newExperience(text, year)],
+    inDiary: false,
+    strikedOut: false,
+  };
+
+  return { ok: true, memories: [...memories, memory] };
+}
+
+// Forgetting strikes the memory out; it stays on the sheet but no longer counts
+export function forgetMemory(memories: Memory[], memoryId: string): MemoryResult {
+  const memory = memories.find(m => m.id === memoryId);
+  if (!memory) {
+    return { ok: false, error: "Memory not found" };
+  }
+  if (!isActiveMemory(memory)) {
+    return { ok: false, error: "Only a memory the vampire still holds can be forgotten" };
+  }
+
+  return {
+    ok: true,
+    memories: memories.map(m => m.id === memoryId ? { ...m, strikedOut: true } : m),
+  };
+}
+
+// Deleting removes a memory entirely, for correcting mistakes rather than play
+export function deleteMemory(memories: Memory[], memoryId: string): MemoryResult {
+  const memory = memories.find(m => m.id === memoryId);
+  if (!memory) {
+    return { ok: false, error: "Memory not found" };
+  }
+  if (memory.inDiary) {
+    return { ok: false, error: "A memory written in the diary cannot be deleted" };
+  }
+
+  return { ok: true, memories: memories.filter(m => m.id !== memoryId) };
+}
+
+export function addExperience(
+  memories: Memory[],
+  memoryId: string,
+  text: string,
+  year?: number | null,
+  source?: ExperienceSource
+): MemoryResult {
+  const memory = memories.find(m => m.id === memoryId);
+  if (!memory) {
+    return { ok: false, error: "Memory not found" };
+  }
+  if (!text.trim()) {
+    return { ok: false, error: "An experience needs some text" };
+  }
+  if (!canAddExperience(memory)) {
+    return { ok: false, error: `"${memory.title}" cannot take another experience` };
+  }
+
+  const experience = newExperience(text, year, source);
+
+  return {
+    ok: true,
+    memories: memories.map(m => m.id === memoryId
+      ? { ...m, experiences: [...(m.experiences || []), experience] }
+      : m
+    ),
+  };
+}
+
+export function editExperience(memories: Memory[], memoryId: string, index: number, text: string): MemoryResult {
+  const memory = memories.find(m => m.id === memoryId);
+  if (!memory || !(memory.experiences || [])[index]) {
+    return { ok: false, error: "Experience not found" };
+  }
+  if (!text.trim()) {
+    return { ok: false, error: "An experience needs some text" };
+  }
+
+  return {
+    ok: true,
+    memories: memories.map(m => m.id === memoryId
+      ? { ...m, experiences: m.experiences.map((exp, i) => i === index ? { ...exp, text: text.trim() } : exp) }
+      : m
+    ),
+  };
+}
+
+export function deleteExperience(memories: Memory[], memoryId: string, index: number): MemoryResult {
+  const memory = memories.find(m => m.id === memoryId);
+  if (!memory || !(memory.experiences || [])[index]) {
+    return { ok: false, error: "Experience not found" };
+  }
+  if (!isActiveMemory(memory)) {
+    return { ok: false, error: "Experiences can only be removed from memories the vampire still holds" };
+  }
+
+  return {
+    ok: true,
+    memories: memories.map(m => m.id === memoryId
+      ? { ...m, experiences: m.experiences.filter((_, i) => i !== index) }
+      : m
+    ),
+  };
+}
+
+export function renameMemory(memories: Memory[], memoryId: string, title: string): MemoryResult {
+  const trimmed = title.trim();
+  if (!trimmed) {
+    return { ok: false, error: "A memory needs a title" };
+  }
+  if (!memories.some(m => m.id === memoryId)) {
+    return { ok: false, error: "Memory not found" };
+  }
+
+  return {
+    ok: true,
+    memories: memories.map(m => m.id === memoryId ? { ...m, title: trimmed } : m),
+  };
+}
+
+// memoryIds is the full list of memory ids in their new order
+export function reorderMemories(memories: Memory[], memoryIds: string[]): MemoryResult {
+  const byId = new Map(memories.map(m => [m.id, m]));
+  if (memoryIds.length !== memories.length || new Set(memoryIds).size !== memoryIds.length ||
+      !memoryIds.every(id => byId.has(id))) {
+    return { ok: false, error: "The new order must list every memory exactly once" };
+  }
+
+  return { ok: true, memories: memoryIds.map(id => byId.get(id)!) };
+}
+
+// order lists the memory's current experience indexes in their new order
+export function reorderExperiences(memories: Memory[], memoryId: string, order: number[]): MemoryResult {
+  const memory = memories.find(m => m.id === memoryId);
+  if (!memory) {
+    return { ok: false, error: "Memory not found" };
+  }
+
+  const experiences = memory.experiences || [];
+  if (!isPermutation(order, experiences.length)) {
+    return { ok: false, error: "The new order must list every experience exactly once" };
+  }
+
+  return {
+    ok: true,
+    memories: memories.map(m => m.id === memoryId
+      ? { ...m, experiences: order.map(i => experiences[i]) }
+      : m
+    ),
+  };
+}
+
+// Moves one experience between two memories the vampire still holds,
+// inserting it at toIndex or at the end of the target memory
+export function moveExperience(
+  memories: Memory[],
+  fromMemoryId: string,
+  experienceIndex: number,
+  toMemoryId: string,
+  toIndex?: number
+): MemoryResult {
+  const from = memories.find(m => m.id === fromMemoryId);
+  const to = memories.find(m => m.id === toMemoryId);
+  if (!from || !to) {
+    return { ok: false, error: "Memory not found" };
+  }
+  if (!isActiveMemory(from) || !isActiveMemory(to)) {
+    return { ok: false, error: "Experiences can only be moved between memories the vampire still holds" };
+  }
+
+  const experience = (from.experiences || [])[experienceIndex];
+  if (!experience) {
+    return { ok: false, error: "Experience not found" };
+  }
+
+  if (fromMemoryId === toMemoryId) {
+    const remaining = from.experiences.filter((_, i) => i !== experienceIndex);
+    const at = toIndex === undefined ? remaining.length : Math.min(Math.max(toIndex, 0), remaining.length);
+    remaining.splice(at, 0, experience);
+    return {
+      ok: true,
+      memories: memories.map(m => m.id === fromMemoryId ? { ...m, experiences: remaining } : m),
+    };
+  }
+
+  if (!canAddExperience(to)) {
+    return { ok: false, error: `"${to.title}" already holds the maximum number of experiences` };
+  }
+
+  const targetExperiences = [...(to.experiences || [])];
+  const at = toIndex === undefined ? targetExperiences.length : Math.min(Math.max(toIndex, 0), targetExperiences.length);
+  targetExperiences.splice(at, 0, experience);
+
+  return {
+    ok: true,
+    memories: memories.map(m => {
+      if (m.id === fromMemoryId) {
+        return { ...m, experiences: m.experiences.filter((_, i) => i !== experienceIndex) };
+      }
+      if (m.id === toMemoryId) {
+        return { ...m, experiences: targetExperiences };
+      }
+      return m;
+    }),
+  };
+}
+
+// Takes back the experience an undone prompt turn stored, wherever it has been
+// moved since. The memory the turn created goes too, but only once nothing
+// else is left in it.
+export function removeTurnExperience(
+  memories: Memory[],
+  isTurnExperience: (exp: Experience) => boolean,
+  createdMemoryId?: string
+): Memory[] {
+  return memories
+    .map(m => ({ ...m, experiences: (m.experiences || []).filter(exp => !isTurnExperience(exp)) }))
+    .filter(m => m.id !== createdMemoryId || m.experiences.length > 0);
+}
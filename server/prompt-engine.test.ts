@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateMovement,
+  catalogPromptNumbers,
+  firstUnvisitedLetter,
+  markVisited,
+  resolveNextPrompt,
+  type CatalogEntry,
+} from "./prompt-engine";
+
+// Prompts 1-5, each with letters a, b and c
+const catalog: CatalogEntry[] = [1, 2, 3, 4, 5].flatMap(promptNumber =>
+  ["a", "b", "c"].map(promptLetter => ({ promptNumber, promptLetter }))
+);
+
+describe("calculateMovement", () => {
+  it("subtracts the d6 from the d10", () => {
+    expect(calculateMovement({ d10: 7, d6: 3 })).toBe(4);
+    expect(calculateMovement({ d10: 2, d6: 5 })).toBe(-3);
+    expect(calculateMovement({ d10: 4, d6: 4 })).toBe(0);
+  });
+});
+
+describe("firstUnvisitedLetter", () => {
+  it("returns a for a prompt never visited", () => {
+    expect(firstUnvisitedLetter(undefined)).toBe("a");
+  });
+
+  it("returns the first letter not seen yet", () => {
+    expect(firstUnvisitedLetter({ promptNumber: 3, letters: ["a"] })).toBe("b");
+    expect(firstUnvisitedLetter({ promptNumber: 3, letters: ["a", "c"] })).toBe("b");
+  });
+
+  it("returns null once a, b and c have been seen", () => {
+    expect(firstUnvisitedLetter({ promptNumber: 3, letters: ["c", "a", "b"] })).toBeNull();
+  });
+});
+
+describe("catalogPromptNumbers", () => {
+  it("sorts and de-duplicates prompt numbers", () => {
+    expect(catalogPromptNumbers([
+      { promptNumber: 3, promptLetter: "a" },
+      { promptNumber: 1, promptLetter: "b" },
+      { promptNumber: 3, promptLetter: "b" },
+      { promptNumber: 1, promptLetter: "a" },
+    ])).toEqual([1, 3]);
+  });
+});
+
+describe("markVisited", () => {
+  it("does not change the list it is given", () => {
+    const visited = [{ promptNumber: 1, letters: ["a"] }];
+    const updated = markVisited(visited, 1, "b");
+    expect(updated).toEqual([{ promptNumber: 1, letters: ["a", "b"] }]);
+    expect(visited).toEqual([{ promptNumber: 1, letters: ["a"] }]);
+  });
+});
+
+describe("resolveNextPrompt", () => {
+  it("moves forward by the difference of the dice", () => {
+    const result = resolveNextPrompt(
+      { currentPrompt: 1, currentLetter: "a", visitedPrompts: [{ promptNumber: 1, letters: ["a"] }] },
+      { d10: 5, d6: 2 },
+      catalog
+    );
+    expect(result).toMatchObject({ nextPrompt: 4, nextLetter: "a", movement: 3, redirected: false });
+    expect(result.visitedPrompts).toContainEqual({ promptNumber: 4, letters: ["a"] });
+  });
+
+  it("stays on the prompt and takes the next letter on equal dice", () => {
+    const result = resolveNextPrompt(
+      { currentPrompt: 2, currentLetter: "a", visitedPrompts: [{ promptNumber: 2, letters: ["a"] }] },
+      { d10: 3, d6: 3 },
+      catalog
+    );
+    expect(result).toMatchObject({ nextPrompt: 2, nextLetter: "b", movement: 0, redirected: false });
+  });
+
+  it("redirects to the next prompt with an unseen letter on equal dice at c", () => {
+    const result = resolveNextPrompt(
+      {
+        currentPrompt: 2,
+        currentLetter: "c",
+        visitedPrompts: [
+          { promptNumber: 2, letters: ["a", "b", "c"] },
+          { promptNumber: 3, letters: ["a", "b", "c"] },
+          { promptNumber: 4, letters: ["a"] },
+        ],
+      },
+      { d10: 6, d6: 6 },
+      catalog
+    );
+    expect(result).toMatchObject({ nextPrompt: 4, nextLetter: "b", redirected: true });
+  });
+
+  it("never goes below prompt 1", () => {
+    const result = resolveNextPrompt(
+      { currentPrompt: 2, currentLetter: "a", visitedPrompts: [{ promptNumber: 2, letters: ["a"] }] },
+      { d10: 1, d6: 6 },
+      catalog
+    );
+    expect(result).toMatchObject({ nextPrompt: 1, nextLetter: "a", movement: -5 });
+  });
+
+  it("uses the next unseen letter when moving back to a visited prompt", () => {
+    const result = resolveNextPrompt(
+      {
+        currentPrompt: 4,
+        currentLetter: "a",
+        visitedPrompts: [
+          { promptNumber: 1, letters: ["a", "b"] },
+          { promptNumber: 4, letters: ["a"] },
+        ],
+      },
+      { d10: 1, d6: 4 },
+      catalog
+    );
+    expect(result).toMatchObject({ nextPrompt: 1, nextLetter: "c" });
+    expect(result.visitedPrompts).toContainEqual({ promptNumber: 1, letters: ["a", "b", "c"] });
+  });
+
+  it("stays on c when a revisited prompt has no unseen letters left", () => {
+    const result = resolveNextPrompt(
+      {
+        currentPrompt: 3,
+        currentLetter: "a",
+        visitedPrompts: [
+          { promptNumber: 1, letters: ["a", "b", "c"] },
+          { promptNumber: 3, letters: ["a"] },
+        ],
+      },
+      { d10: 1, d6: 3 },
+      catalog
+    );
+    expect(result).toMatchObject({ nextPrompt: 1, nextLetter: "c" });
+  });
+
+  it("steps past the end of the catalog when every later prompt has been seen", () => {
+    const result = resolveNextPrompt(
+      {
+        currentPrompt: 4,
+        currentLetter: "c",
+        visitedPrompts: [
+          { promptNumber: 4, letters: ["a", "b", "c"] },
+          { promptNumber: 5, letters: ["a", "b", "c"] },
+        ],
+      },
+      { d10: 2, d6: 2 },
+      catalog
+    );
+    expect(result).toMatchObject({ nextPrompt: 6, nextLetter: "a", redirected: true });
+  });
+
+  it("moves past the highest prompt in the catalog on a large roll", () => {
+    const result = resolveNextPrompt(
+      { currentPrompt: 4, currentLetter: "a", visitedPrompts: [{ promptNumber: 4, letters: ["a"] }] },
+      { d10: 10, d6: 1 },
+      catalog
+    );
+    expect(result).toMatchObject({ nextPrompt: 13, nextLetter: "a" });
+  });
+});
@@ -0,0 +1,148 @@
+import type { VisitedPrompt } from "@db/schema";
+
+// The prompt engine decides where a character goes after answering a prompt.
+// It is deliberately free of database and request access so the movement rules
+// can be exercised on their own: callers pass in the character's position, the
+// dice and the list of prompts that exist, and get back the next position.
+
+export const PROMPT_LETTERS = ["a", "b", "c"] as const;
+
+export type DiceRoll = {
+  d10: number;
+  d6: number;
+};
+
+export type PromptState = {
+  currentPrompt: number;
+  currentLetter: string;
+  visitedPrompts: VisitedPrompt[];
+};
+
+export type CatalogEntry = {
+  promptNumber: number;
+  promptLetter: string;
+};
+
+export type PromptResolution = {
+  nextPrompt: number;
+  nextLetter: string;
+  movement: number;
+  // True when the letter sequence ran past 'c' and we jumped to another prompt
+  redirected: boolean;
+  // Updated copy of the visited prompts including the destination
+  visitedPrompts: VisitedPrompt[];
+  explanation: string;
+};
+
+// Movement is the d10 minus the d6; equal dice mean staying on the same prompt
+export function calculateMovement(roll: DiceRoll): number {
+  return roll.d10 - roll.d6;
+}
+
+// Returns the first letter of a prompt that has not been visited yet, or null
+// when a, b and c have all been seen
+export function firstUnvisitedLetter(visited: VisitedPrompt | undefined): string | null {
+  const letters = visited?.letters || [];
+  return PROMPT_LETTERS.find(letter => !letters.includes(letter)) ?? null;
+}
+
+// Sorted, de-duplicated prompt numbers available in the catalog
+export function catalogPromptNumbers(catalog: CatalogEntry[]): number[] {
+  const numbers: number[] = [];
+  catalog.forEach(p => {
+    if (!numbers.includes(p.promptNumber)) {
+      numbers.push(p.promptNumber);
+    }
+  });
+  return numbers.sort((a, b) => a - b);
+}
+
+// Records a visit to the given prompt/letter, returning a new array
+export function markVisited(
+  visitedPrompts: VisitedPrompt[],
+  promptNumber: number,
+  letter: string
+): VisitedPrompt[] {
+  const updated = (visitedPrompts || []).map(p => ({ ...p, letters: [...p.letters] }));
+  const existing = updated.find(p => p.promptNumber === promptNumber);
+
+  if (existing) {
+    if (!existing.letters.includes(letter)) {
+      existing.letters.push(letter);
+    }
+  } else {
+    updated.push({ promptNumber, letters: [letter] });
+  }
+
+  return updated;
+}
+
+export function resolveNextPrompt(
+  state: PromptState,
+  roll: DiceRoll,
+  catalog: CatalogEntry[]
+): PromptResolution {
+  const visitedPrompts = state.visitedPrompts || [];
+  const currentPrompt = state.currentPrompt || 1;
+  const currentLetter = state.currentLetter || "a";
+  const movement = calculateMovement(roll);
+  const from = `${currentPrompt}${currentLetter}`;
+
+  let nextPrompt: number;
+  let nextLetter: string;
+  let redirected = false;
+  let explanation: string;
+
+  if (movement === 0) {
+    // Same dice: stay on this prompt and move to the next letter (a -> b -> c)
+    const letterIndex = PROMPT_LETTERS.indexOf(currentLetter as typeof PROMPT_LETTERS[number]);
+
+    if (letterIndex >= 0 && letterIndex < PROMPT_LETTERS.length - 1) {
+      nextPrompt = currentPrompt;
+      nextLetter = PROMPT_LETTERS[letterIndex + 1];
+      explanation = `Equal dice, staying on prompt ${currentPrompt} and moving from ${from} to ${nextPrompt}${nextLetter}`;
+    } else {
+      // There is no 'd' variant, so find the next prompt that still has an unvisited letter
+      redirected = true;
+      const promptNumbers = catalogPromptNumbers(catalog);
+      const candidate = promptNumbers.find(number =>
+        number > currentPrompt &&
+        firstUnvisitedLetter(visitedPrompts.find(p => p.promptNumber === number)) !== null
+      );
+
+      if (candidate !== undefined) {
+        nextPrompt = candidate;
+        nextLetter = firstUnvisitedLetter(visitedPrompts.find(p => p.promptNumber === candidate)) as string;
+        explanation = `Equal dice after ${from}, redirecting to the next unvisited prompt ${nextPrompt}${nextLetter}`;
+      } else {
+        // Every later prompt has been fully visited, step past the end of the catalog
+        const highest = promptNumbers.length > 0 ? promptNumbers[promptNumbers.length - 1] : currentPrompt;
+        nextPrompt = Math.max(highest, currentPrompt) + 1;
+        nextLetter = "a";
+        explanation = `Equal dice after ${from} and all later prompts fully visited, proceeding to new prompt ${nextPrompt}${nextLetter}`;
+      }
+    }
+  } else {
+    // Prompts never go below 1
+    nextPrompt = Math.max(1, currentPrompt + movement);
+    const visitedEntry = visitedPrompts.find(p => p.promptNumber === nextPrompt);
+
+    if (visitedEntry) {
+      // Revisiting a prompt uses its next unseen letter, or stays on 'c' once all are used
+      nextLetter = firstUnvisitedLetter(visitedEntry) ?? "c";
+      explanation = `Moved ${movement} from ${from} to previously visited prompt ${nextPrompt}, using letter ${nextLetter}`;
+    } else {
+      nextLetter = "a";
+      explanation = `Moved ${movement} from ${from} to prompt ${nextPrompt}${nextLetter}`;
+    }
+  }
+
+  return {
+    nextPrompt,
+    nextLetter,
+    movement,
+    redirected,
+    visitedPrompts: markVisited(visitedPrompts, nextPrompt, nextLetter),
+    explanation,
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { Trait } from "@db/schema";
+import { addDescriptor, introduceCharacters, loseStationaryResources, outliveOldAge, updateTrait } from "./traits";
+
+describe("updateTrait", () => {
+  it("restores a lost trait", () => {
+    const result = updateTrait([{ name: "Gold", strikedOut: true }], "Gold", { strikedOut: false });
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.traits).toEqual([{ name: "Gold" }]);
+  });
+
+  it("unchecks a checked Skill and leaves the rest of it alone", () => {
+    const result = updateTrait([{ name: "Swordplay", checked: true, descriptors: [] }], "Swordplay", { checked: false });
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.traits).toEqual([{ name: "Swordplay", descriptors: [] }]);
+  });
+
+  it("marks a Character mortal", () => {
+    const result = updateTrait([{ name: "Agnes" }], "Agnes", { mortality: "mortal" });
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.traits).toEqual([{ name: "Agnes", mortality: "mortal" }]);
+  });
+
+  it("refuses a trait that is not on the list", () => {
+    expect(updateTrait([{ name: "Gold" }], "Silver", { strikedOut: true }).ok).toBe(false);
+  });
+});
+
+describe("addDescriptor", () => {
+  it("appends a trimmed descriptor with its prompt", () => {
+    const result = addDescriptor([{ name: "Agnes" }], "Agnes", " Loyal to a fault ", { promptNumber: 4, promptLetter: "b" });
+    if (!result.ok) throw new Error(result.error);
+
+    const [descriptor] = result.traits[0].descriptors || [];
+    expect(descriptor).toMatchObject({ text: "Loyal to a fault", promptNumber: 4, promptLetter: "b" });
+  });
+
+  it("refuses a lost trait, an empty text or an unknown name", () => {
+    const prompt = { promptNumber: 1, promptLetter: "a" };
+    expect(addDescriptor([{ name: "Agnes", strikedOut: true }], "Agnes", "Text", prompt).ok).toBe(false);
+    expect(addDescriptor([{ name: "Agnes" }], "Agnes", "  ", prompt).ok).toBe(false);
+    expect(addDescriptor([{ name: "Agnes" }], "Bertram", "Text", prompt).ok).toBe(false);
+  });
+});
+
+describe("loseStationaryResources", () => {
+  it("strikes out every stationary Resource and nothing else", () => {
+    const result = loseStationaryResources([
+      { name: "Manor", stationary: true },
+      { name: "Ring" },
+      { name: "Vineyard", stationary: true },
+    ]);
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.traits.map(t => [t.name, !!t.strikedOut])).toEqual([
+      ["Manor", true],
+      ["Ring", false],
+      ["Vineyard", true],
+    ]);
+  });
+
+  it("refuses when no stationary Resource is left", () => {
+    expect(loseStationaryResources([{ name: "Ring" }, { name: "Manor", stationary: true, strikedOut: true }]).ok).toBe(false);
+  });
+});
+
+describe("introduceCharacters", () => {
+  it("starts a new Character aging from the current prompt", () => {
+    expect(introduceCharacters([{ name: "Agnes", mortality: "mortal" }], [], 3)).toEqual([
+      { name: "Agnes", mortality: "mortal", introducedAtTurn: 3 },
+    ]);
+  });
+
+  it("keeps the turn a Character was introduced at, whatever the client sends", () => {
+    const before: Trait[] = [{ name: "Agnes", mortality: "mortal", introducedAtTurn: 1 }];
+    expect(introduceCharacters([{ name: "Agnes", mortality: "mortal", introducedAtTurn: 9 }], before, 6)).toEqual(before);
+  });
+
+  it("starts an older Character aging once it is marked mortal", () => {
+    expect(introduceCharacters([{ name: "Agnes", mortality: "mortal" }], [{ name: "Agnes" }], 6)).toEqual([
+      { name: "Agnes", mortality: "mortal", introducedAtTurn: 6 },
+    ]);
+    expect(introduceCharacters([{ name: "Agnes", mortality: "immortal" }], [{ name: "Agnes" }], 6)).toEqual([
+      { name: "Agnes", mortality: "immortal" },
+    ]);
+  });
+});
+
+describe("outliveOldAge", () => {
+  it("counts the named mortals' lifespan again from now", () => {
+    const result = outliveOldAge([
+      { name: "Agnes", mortality: "mortal", introducedAtTurn: 1 },
+      { name: "Bertram", mortality: "mortal", introducedAtTurn: 1 },
+    ], ["Agnes"], 7);
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.traits.map(t => t.introducedAtTurn)).toEqual([7, 1]);
+  });
+
+  it("refuses a Character who is not a living mortal", () => {
+    expect(outliveOldAge([{ name: "Agnes", mortality: "immortal" }], ["Agnes"], 7).ok).toBe(false);
+    expect(outliveOldAge([{ name: "Agnes", mortality: "mortal", strikedOut: true }], ["Agnes"], 7).ok).toBe(false);
+    expect(outliveOldAge([], ["Agnes"], 7).ok).toBe(false);
+  });
+});
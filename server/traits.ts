@@ -0,0 +1,135 @@
+import type { Mortality, Trait, TraitDescriptor } from "@db/schema";
+
+// The four trait lists on the character sheet, as named in the URL and the characters table
+export const TRAIT_TYPES = ["skills", "resources", "relationships", "marks"] as const;
+export type TraitType = typeof TRAIT_TYPES[number];
+
+export type TraitResult =
+  | { ok: true; traits: Trait[] }
+  | { ok: false; error: string };
+
+export function isTraitType(type: string): type is TraitType {
+  return (TRAIT_TYPES as readonly string[]).includes(type);
+}
+
+// Traits are addressed by name, so names must be unique within a list.
+// fields carries anything else the new trait starts with, such as mortality.
+export function addTrait(traits: Trait[], name: string, fields: Omit<Trait, "name"> = {}): TraitResult {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return { ok: false, error: "A trait needs a name" };
+  }
+  if (traits.some(t => t.name === trimmed)) {
+    return { ok: false, error: `"${trimmed}" is already on the list` };
+  }
+
+  return { ok: true, traits: [...traits, { ...fields, name: trimmed }] };
+}
+
+// Unchecking and restoring undo a mis-click, or bring back something lost
+// when a prompt returns it; the event log keeps the trail either way.
+// Mortality can be set later for Characters added before it was tracked.
+export function updateTrait(
+  traits: Trait[],
+  name: string,
+  changes: { checked?: boolean; strikedOut?: boolean; mortality?: Mortality }
+): TraitResult {
+  if (!traits.some(t => t.name === name)) {
+    return { ok: false, error: `"${name}" was not found` };
+  }
+
+  return {
+    ok: true,
+    traits: traits.map(t => {
+      if (t.name !== name) return t;
+      const { checked, strikedOut, ...rest } = t;
+      const isChecked = changes.checked ?? !!checked;
+      const isStruck = changes.strikedOut ?? !!strikedOut;
+      return {
+        ...rest,
+        ...(changes.mortality && { mortality: changes.mortality }),
+        ...(isChecked && { checked: true }),
+        ...(isStruck && { strikedOut: true }),
+      };
+    }),
+  };
+}
+
+// Descriptors only ever grow; a lost Character keeps them but gets no new ones
+export function addDescriptor(
+  traits: Trait[],
+  name: string,
+  text: string,
+  prompt: Pick<TraitDescriptor, "promptNumber" | "promptLetter">
+): TraitResult {
+  const trait = traits.find(t => t.name === name);
+  if (!trait) {
+    return { ok: false, error: `"${name}" was not found` };
+  }
+  if (trait.strikedOut) {
+    return { ok: false, error: `"${name}" has been lost` };
+  }
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { ok: false, error: "A descriptor needs some text" };
+  }
+
+  const descriptor: TraitDescriptor = { text: trimmed, createdAt: new Date().toISOString(), ...prompt };
+  return {
+    ok: true,
+    traits: traits.map(t => t === trait ? { ...t, descriptors: [...(t.descriptors || []), descriptor] } : t),
+  };
+}
+
+// Prompts that move the vampire on take every Resource they cannot carry
+export function loseStationaryResources(resources: Trait[]): TraitResult {
+  if (!resources.some(t => t.stationary && !t.strikedOut)) {
+    return { ok: false, error: "There are no stationary Resources left to lose" };
+  }
+
+  return {
+    ok: true,
+    traits: resources.map(t => t.stationary && !t.strikedOut ? { ...t, strikedOut: true } : t),
+  };
+}
+
+// Mortals the player decides have not died of old age yet count their
+// lifespan again from now, so they are not brought up after every prompt
+export function outliveOldAge(relationships: Trait[], names: string[], promptsAnswered: number): TraitResult {
+  for (const name of names) {
+    const trait = relationships.find(t => t.name === name);
+    if (!trait) {
+      return { ok: false, error: `"${name}" was not found` };
+    }
+    if (trait.mortality !== "mortal" || trait.strikedOut) {
+      return { ok: false, error: `"${name}" is not a living mortal` };
+    }
+  }
+
+  return {
+    ok: true,
+    traits: relationships.map(t => names.includes(t.name) ? { ...t, introducedAtTurn: promptsAnswered } : t),
+  };
+}
+
+export function deleteTrait(traits: Trait[], name: string): TraitResult {
+  if (!traits.some(t => t.name === name)) {
+    return { ok: false, error: `"${name}" was not found` };
+  }
+
+  return { ok: true, traits: traits.filter(t => t.name !== name) };
+}
+
+// Characters new to the list start aging from the prompt they were introduced
+// at, and so do older ones when they are first marked mortal; the client never
+// sets this itself
+export function introduceCharacters(relationships: Trait[], before: Trait[], promptsAnswered: number): Trait[] {
+  return relationships.map(trait => {
+    const existing = before.find(t => t.name === trait.name);
+    const { introducedAtTurn, ...rest } = trait;
+    const turn = existing
+      ? existing.introducedAtTurn ?? (trait.mortality === "mortal" && existing.mortality !== "mortal" ? promptsAnswered : undefined)
+      : promptsAnswered;
+    return turn !== undefined ? { ...rest, introducedAtTurn: turn } : rest;
+  });
+}
@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const root = path.dirname(fileURLToPath(import.meta.url));
+
+// Mirrors the path aliases in tsconfig.json so tests can import shared modules
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@db": path.resolve(root, "db"),
+      "@": path.resolve(root, "client", "src"),
+    },
+  },
+});